@@ -20,7 +20,7 @@ CREATE INDEX IF NOT EXISTS idx_users_is_active ON users(is_active);
 -- Developer stacks catalog
 CREATE TABLE IF NOT EXISTS developer_stacks (
   id smallint PRIMARY KEY,
-  code text UNIQUE NOT NULL CHECK (code IN ('frontend','backend','infra')),
+  code text UNIQUE NOT NULL,
   label text NOT NULL
 );
 
@@ -138,3 +138,306 @@ CREATE TABLE IF NOT EXISTS suggestion_votes (
   updated_at timestamptz NOT NULL DEFAULT now(),
   UNIQUE (project_id, suggestion_id, user_id)
 );
+
+-- Comments (threaded) em sugestões ou backlog items
+CREATE TABLE IF NOT EXISTS comments (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  suggestion_id uuid NULL REFERENCES suggestions(id) ON DELETE CASCADE,
+  backlog_item_id uuid NULL REFERENCES backlog_items(id) ON DELETE CASCADE,
+  parent_id uuid NULL REFERENCES comments(id) ON DELETE CASCADE,
+  created_by_user_id uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  body text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  edited_at timestamptz NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  deleted_at timestamptz NULL,
+  deleted_by_user_id uuid NULL REFERENCES users(id) ON DELETE RESTRICT,
+  CHECK ((suggestion_id IS NOT NULL) <> (backlog_item_id IS NOT NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_comments_suggestion ON comments(suggestion_id) WHERE suggestion_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_comments_backlog_item ON comments(backlog_item_id) WHERE backlog_item_id IS NOT NULL;
+
+-- Audit log (gravado na mesma transação da mudança)
+CREATE TABLE IF NOT EXISTS audit_events (
+  id bigserial PRIMARY KEY,
+  project_id uuid NULL REFERENCES projects(id) ON DELETE CASCADE,
+  actor_user_id uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  action text NOT NULL,
+  entity_type text NOT NULL,
+  entity_id text NOT NULL,
+  before jsonb NULL,
+  after jsonb NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_audit_events_project ON audit_events(project_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_actor ON audit_events(actor_user_id, id DESC);
+CREATE INDEX IF NOT EXISTS idx_audit_events_entity ON audit_events(entity_type, entity_id);
+
+-- Sessões: versão do token (invalida JWTs emitidos antes) + refresh tokens (hash)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS token_version int NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash text UNIQUE NOT NULL,
+  expires_at timestamptz NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  revoked_at timestamptz NULL,
+  replaced_by_id uuid NULL REFERENCES refresh_tokens(id) ON DELETE SET NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_refresh_tokens_user ON refresh_tokens(user_id) WHERE revoked_at IS NULL;
+
+-- Preferências pessoais (self-service em /me)
+ALTER TABLE users ADD COLUMN IF NOT EXISTS language text NULL;
+ALTER TABLE users ADD COLUMN IF NOT EXISTS default_project_id uuid NULL REFERENCES projects(id) ON DELETE SET NULL;
+
+-- Reset de senha (token de uso único, só o hash fica salvo)
+CREATE TABLE IF NOT EXISTS password_reset_tokens (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  token_hash text UNIQUE NOT NULL,
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_password_reset_tokens_user ON password_reset_tokens(user_id) WHERE used_at IS NULL;
+
+-- Caixa de saída de e-mails (transport padrão: grava aqui em vez de enviar por SMTP)
+CREATE TABLE IF NOT EXISTS mail_outbox (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  from_email text NOT NULL,
+  to_email text NOT NULL,
+  subject text NOT NULL,
+  body_text text NOT NULL,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  sent_at timestamptz NULL
+);
+
+-- Histórico de status das sugestões
+CREATE TABLE IF NOT EXISTS suggestion_status_history (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  suggestion_id uuid NOT NULL REFERENCES suggestions(id) ON DELETE CASCADE,
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  reason text NULL,
+  changed_by_user_id uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_suggestion_status_history_suggestion ON suggestion_status_history(suggestion_id, created_at);
+
+-- Busca full-text (título pesa mais que descrição)
+ALTER TABLE suggestions ADD COLUMN IF NOT EXISTS search_tsv tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('portuguese', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('portuguese', coalesce(description, '')), 'B')
+  ) STORED;
+
+ALTER TABLE backlog_items ADD COLUMN IF NOT EXISTS search_tsv tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('portuguese', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('portuguese', coalesce(summary, '')), 'B')
+  ) STORED;
+
+ALTER TABLE backlog_tasks ADD COLUMN IF NOT EXISTS search_tsv tsvector
+  GENERATED ALWAYS AS (
+    setweight(to_tsvector('portuguese', coalesce(title, '')), 'A') ||
+    setweight(to_tsvector('portuguese', coalesce(description, '')), 'B')
+  ) STORED;
+
+CREATE INDEX IF NOT EXISTS idx_suggestions_search ON suggestions USING gin (search_tsv);
+CREATE INDEX IF NOT EXISTS idx_backlog_items_search ON backlog_items USING gin (search_tsv);
+CREATE INDEX IF NOT EXISTS idx_backlog_tasks_search ON backlog_tasks USING gin (search_tsv);
+
+-- Duplicatas: similaridade por trigramas + redirect da sugestão mesclada
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+CREATE INDEX IF NOT EXISTS idx_suggestions_title_trgm ON suggestions USING gin (title gin_trgm_ops);
+
+ALTER TABLE suggestions ADD COLUMN IF NOT EXISTS merged_into_id uuid NULL REFERENCES suggestions(id) ON DELETE SET NULL;
+
+-- Responsável pela task
+ALTER TABLE backlog_tasks ADD COLUMN IF NOT EXISTS assignee_user_id uuid NULL REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE backlog_tasks ADD COLUMN IF NOT EXISTS assigned_at timestamptz NULL;
+
+CREATE INDEX IF NOT EXISTS idx_backlog_tasks_assignee ON backlog_tasks(assignee_user_id) WHERE assignee_user_id IS NOT NULL;
+
+-- Milestones / sprints
+CREATE TABLE IF NOT EXISTS milestones (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open','closed')),
+  closed_at timestamptz NULL,
+  created_by_user_id uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (end_date >= start_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_milestones_project ON milestones(project_id, start_date);
+
+ALTER TABLE backlog_items ADD COLUMN IF NOT EXISTS milestone_id uuid NULL REFERENCES milestones(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_backlog_items_milestone ON backlog_items(milestone_id) WHERE milestone_id IS NOT NULL;
+
+-- Ordenação manual do backlog (rank lexicográfico, ver src/rank.ts)
+ALTER TABLE backlog_items ADD COLUMN IF NOT EXISTS rank text COLLATE "C";
+
+UPDATE backlog_items b
+SET rank = lpad(r.rn::text, 8, '0') || 'i'
+FROM (
+  SELECT id, row_number() OVER (PARTITION BY project_id ORDER BY created_at DESC) as rn
+  FROM backlog_items
+) r
+WHERE r.id = b.id AND b.rank IS NULL;
+
+ALTER TABLE backlog_items ALTER COLUMN rank SET NOT NULL;
+
+CREATE INDEX IF NOT EXISTS idx_backlog_items_rank ON backlog_items(project_id, stage, rank);
+
+-- Eventos do projeto (stream SSE + retomada via Last-Event-ID)
+CREATE TABLE IF NOT EXISTS project_events (
+  id bigserial PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_project_events_project ON project_events(project_id, id);
+
+-- Webhooks de saída (por projeto) + log de entregas
+CREATE TABLE IF NOT EXISTS webhooks (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  url text NOT NULL,
+  secret text NOT NULL,
+  event_types text[] NOT NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_by_user_id uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhooks_project ON webhooks(project_id) WHERE is_active = true;
+
+CREATE TABLE IF NOT EXISTS webhook_deliveries (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  webhook_id uuid NOT NULL REFERENCES webhooks(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  payload jsonb NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending','success','failed')),
+  attempts int NOT NULL DEFAULT 0,
+  next_attempt_at timestamptz NOT NULL DEFAULT now(),
+  last_attempt_at timestamptz NULL,
+  last_status_code int NULL,
+  last_error text NULL,
+  last_response_body text NULL,
+  delivered_at timestamptz NULL,
+  replay_of_id uuid NULL REFERENCES webhook_deliveries(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due ON webhook_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook ON webhook_deliveries(webhook_id, created_at DESC);
+
+-- Notificações in-app
+CREATE TABLE IF NOT EXISTS notifications (
+  id uuid PRIMARY KEY DEFAULT uuid_generate_v4(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  data jsonb NOT NULL DEFAULT '{}'::jsonb,
+  read_at timestamptz NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_notifications_user ON notifications(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_notifications_unread ON notifications(user_id) WHERE read_at IS NULL;
+
+-- Preferências por tipo (sem linha = ligado)
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  type text NOT NULL,
+  enabled boolean NOT NULL,
+  updated_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (user_id, type)
+);
+
+-- Role por projeto (NULL = herda users.role; admin global é sempre admin)
+ALTER TABLE project_members ADD COLUMN IF NOT EXISTS role text NULL CHECK (role IN ('user','developer','manager'));
+
+-- Catálogo de stacks gerenciado pelo admin (antes fixo em frontend/backend/infra)
+ALTER TABLE developer_stacks DROP CONSTRAINT IF EXISTS developer_stacks_code_check;
+ALTER TABLE developer_stacks ADD COLUMN IF NOT EXISTS is_active boolean NOT NULL DEFAULT true;
+ALTER TABLE developer_stacks ADD COLUMN IF NOT EXISTS created_at timestamptz NOT NULL DEFAULT now();
+ALTER TABLE developer_stacks ADD COLUMN IF NOT EXISTS updated_at timestamptz NOT NULL DEFAULT now();
+
+CREATE SEQUENCE IF NOT EXISTS developer_stacks_id_seq AS smallint OWNED BY developer_stacks.id;
+SELECT setval('developer_stacks_id_seq', (SELECT COALESCE(MAX(id), 0) + 1 FROM developer_stacks), false);
+ALTER TABLE developer_stacks ALTER COLUMN id SET DEFAULT nextval('developer_stacks_id_seq');
+
+-- Histórico datado de estágio do backlog (base do cumulative flow)
+-- backlog_items.stage continua sendo o estágio atual; cada mudança vira uma linha aqui
+CREATE TABLE IF NOT EXISTS backlog_stage_history (
+  id bigserial PRIMARY KEY,
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  backlog_item_id uuid NOT NULL REFERENCES backlog_items(id) ON DELETE CASCADE,
+  from_stage text NULL,
+  to_stage text NOT NULL CHECK (to_stage IN ('todo','doing','review','done','blocked')),
+  changed_by_user_id uuid NULL REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_backlog_stage_history_project ON backlog_stage_history(project_id, created_at);
+CREATE INDEX IF NOT EXISTS idx_backlog_stage_history_item ON backlog_stage_history(backlog_item_id, created_at);
+
+-- itens anteriores ao histórico: entrada em todo na criação e, se já saiu de todo,
+-- o estágio atual na última atualização (aproximação)
+INSERT INTO backlog_stage_history (project_id, backlog_item_id, from_stage, to_stage, created_at)
+SELECT b.project_id, b.id, NULL, 'todo', b.created_at
+FROM backlog_items b
+WHERE NOT EXISTS (SELECT 1 FROM backlog_stage_history h WHERE h.backlog_item_id = b.id)
+UNION ALL
+SELECT b.project_id, b.id, 'todo', b.stage, b.updated_at
+FROM backlog_items b
+WHERE b.stage <> 'todo'
+  AND NOT EXISTS (SELECT 1 FROM backlog_stage_history h WHERE h.backlog_item_id = b.id);
+
+-- Progresso ponderado: pontos de esforço opcionais por task e estratégia por projeto
+-- task_count = tasks feitas / total; effort = soma dos pontos (sem pontos = 1);
+-- stack_weighted = peso da stack da task em progress_stack_weights (sem peso = 1)
+ALTER TABLE backlog_tasks ADD COLUMN IF NOT EXISTS effort_points int NULL CHECK (effort_points BETWEEN 1 AND 100);
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS progress_strategy text NOT NULL DEFAULT 'task_count'
+  CHECK (progress_strategy IN ('task_count','effort','stack_weighted'));
+ALTER TABLE projects ADD COLUMN IF NOT EXISTS progress_stack_weights jsonb NOT NULL DEFAULT '{}'::jsonb;
+
+-- Dependências entre tasks do mesmo projeto (task_id só pode ser concluída depois de depends_on_task_id)
+CREATE TABLE IF NOT EXISTS backlog_task_dependencies (
+  project_id uuid NOT NULL REFERENCES projects(id) ON DELETE CASCADE,
+  task_id uuid NOT NULL REFERENCES backlog_tasks(id) ON DELETE CASCADE,
+  depends_on_task_id uuid NOT NULL REFERENCES backlog_tasks(id) ON DELETE CASCADE,
+  created_by_user_id uuid NOT NULL REFERENCES users(id) ON DELETE RESTRICT,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  PRIMARY KEY (task_id, depends_on_task_id),
+  CHECK (task_id <> depends_on_task_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_backlog_task_dependencies_depends_on ON backlog_task_dependencies(depends_on_task_id);
+
+-- Bloqueio automático: estágio de onde o item saiu quando foi para blocked por dependências
+-- (NULL = não está bloqueado automaticamente; bloqueio manual não é desfeito sozinho)
+ALTER TABLE backlog_items ADD COLUMN IF NOT EXISTS auto_blocked_from_stage text NULL
+  CHECK (auto_blocked_from_stage IN ('todo','doing'));
@@ -126,6 +126,24 @@ async function refreshSuggestionCounters(project_id, suggestion_id) {
   );
 }
 
+// rank do item novo no topo do projeto (mesma lógica de src/rank.ts: rankBetween(null, MIN(rank)))
+const RANK_ALPHABET = "0123456789abcdefghijklmnopqrstuvwxyz";
+
+async function topRank(client, project_id) {
+  const res = await client.query(`SELECT MIN(rank) as rank FROM backlog_items WHERE project_id=$1`, [project_id]);
+  const after = res.rows[0]?.rank ?? null;
+
+  let out = "";
+  let upperBounded = after !== null;
+  for (let i = 0; ; i++) {
+    const hi = upperBounded ? RANK_ALPHABET.indexOf(after[i]) : RANK_ALPHABET.length;
+    if (hi < 0) throw new Error(`Sem espaço antes do rank "${after}"`);
+    if (hi > 1) return out + RANK_ALPHABET[upperBounded ? hi - 1 : Math.floor(hi / 2)];
+    out += "0";
+    if (hi === 1) upperBounded = false;
+  }
+}
+
 async function pullToBacklog({ project_id, suggestion_id, created_by_user_id }) {
   const client = await pool.connect();
   try {
@@ -146,12 +164,13 @@ async function pullToBacklog({ project_id, suggestion_id, created_by_user_id })
     }
 
     const backlog_id = uuid();
+    const rank = await topRank(client, project_id);
 
     await client.query(
       `INSERT INTO backlog_items
-        (id, project_id, origin_type, suggestion_id, title, summary, stage, priority, progress_percent, created_by_user_id)
-       VALUES ($1, $2, 'suggestion', $3, $4, $5, 'doing', 'high', 0, $6)`,
-      [backlog_id, project_id, suggestion_id, sug.title, sug.description, created_by_user_id]
+        (id, project_id, origin_type, suggestion_id, title, summary, stage, priority, progress_percent, rank, created_by_user_id)
+       VALUES ($1, $2, 'suggestion', $3, $4, $5, 'doing', 'high', 0, $6, $7)`,
+      [backlog_id, project_id, suggestion_id, sug.title, sug.description, rank, created_by_user_id]
     );
 
     await client.query(
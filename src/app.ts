@@ -8,10 +8,18 @@ import { meRoutes } from "./routes/me.routes";
 import { projectsRoutes } from "./routes/projects.routes";
 import { suggestionsRoutes } from "./routes/suggestions.routes";
 import { backlogRoutes } from "./routes/backlog.routes";
+import { commentsRoutes } from "./routes/comments.routes";
+import { searchRoutes } from "./routes/search.routes";
+import { milestonesRoutes } from "./routes/milestones.routes";
+import { eventsRoutes } from "./routes/events.routes";
+import { metricsRoutes } from "./routes/metrics.routes";
 import { errorHandler } from "./middleware/errorHandler";
 import { adminUsersRoutes } from "./routes/admin.users.routes";
 import { adminMembershipRoutes } from "./routes/admin.memberships.routes";
-import { adminProjectsRoutes } from "./routes/admin.projects.routes";
+import { adminProjectsRoutes, PROJECT_IMPORT_PATH } from "./routes/admin.projects.routes";
+import { adminAuditRoutes } from "./routes/admin.audit.routes";
+import { adminWebhooksRoutes } from "./routes/admin.webhooks.routes";
+import { adminStacksRoutes } from "./routes/admin.stacks.routes";
 
 export function createApp() {
   const app = express();
@@ -27,7 +35,9 @@ export function createApp() {
 	allowedHeaders: ['Content-Type', 'Authorization'],
 	}));
 	
-	app.use(express.json({ limit: "1mb" }));
+	// import de projeto tem parser próprio (25mb) na rota, depois da autenticação
+	const jsonBody = express.json({ limit: "1mb" });
+	app.use((req, res, next) => (PROJECT_IMPORT_PATH.test(req.path) ? next() : jsonBody(req, res, next)));
 	app.set('trust proxy', 1);
 
   app.use(rateLimit({
@@ -44,8 +54,16 @@ export function createApp() {
   app.use("/api", projectsRoutes);
   app.use("/api", suggestionsRoutes);
   app.use("/api", backlogRoutes);
+  app.use("/api", commentsRoutes);
+  app.use("/api", searchRoutes);
+  app.use("/api", milestonesRoutes);
+  app.use("/api", eventsRoutes);
+  app.use("/api", metricsRoutes);
+	app.use("/api", adminStacksRoutes);
 	app.use("/api", adminUsersRoutes);
 	app.use("/api", adminMembershipRoutes);
+	app.use("/api", adminAuditRoutes);
+	app.use("/api", adminWebhooksRoutes);
 	app.use("/api", adminProjectsRoutes);
 
   app.use(errorHandler);
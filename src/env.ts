@@ -10,11 +10,20 @@ const EnvSchema = z.object({
   JWT_SECRET: z.string().min(20),
   JWT_EXPIRES_IN: z
     .string()
-    .default("7d")
+    .default("15m")
     .transform((s) => s.trim()),
+  REFRESH_TOKEN_TTL_DAYS: z.coerce.number().int().positive().default(30),
 
   DATABASE_URL: z.string().min(1),
 
+  MAIL_FROM: z.string().default("Mural <no-reply@mural.local>"),
+  PASSWORD_RESET_URL: z.string().default("http://localhost:8080/reset-password"),
+  PASSWORD_RESET_TTL_MINUTES: z.coerce.number().int().positive().default(60),
+
+  WEBHOOK_WORKER_INTERVAL_MS: z.coerce.number().int().positive().default(5_000),
+  WEBHOOK_MAX_ATTEMPTS: z.coerce.number().int().positive().default(8),
+  WEBHOOK_TIMEOUT_MS: z.coerce.number().int().positive().default(10_000),
+
   RATE_LIMIT_WINDOW_MS: z.coerce.number().default(60_000),
   RATE_LIMIT_MAX: z.coerce.number().default(120),
 });
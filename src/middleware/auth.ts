@@ -1,34 +1,54 @@
 import { NextFunction, Request, Response } from "express";
 import jwt from "jsonwebtoken";
 import { env } from "../env";
+import { getUserAuthState } from "../sql";
 import { JwtPayload } from "../types";
 
 declare global {
   namespace Express {
     interface Request {
-      auth?: { userId: string; role: JwtPayload["role"] };
+      auth?: {
+        userId: string;
+        // role efetiva: depois dos middlewares de projeto, é a role no :projectId
+        role: JwtPayload["role"];
+        globalRole?: JwtPayload["role"];
+        project?: { id: string; isMember: boolean };
+        // versão do token aceita no login (conexões longas revalidam contra users.token_version)
+        tokenVersion?: number;
+      };
     }
   }
 }
 
-export function authRequired(req: Request, res: Response, next: NextFunction) {
+export async function authRequired(req: Request, res: Response, next: NextFunction) {
   const header = req.headers.authorization;
   if (!header?.startsWith("Bearer ")) {
     return res.status(401).json({ error: "Não autenticado" });
   }
 
   const token = header.slice("Bearer ".length);
+  let payload: JwtPayload;
   try {
     const decoded = jwt.verify(token, env.JWT_SECRET) as jwt.JwtPayload;
-    const payload = decoded as unknown as JwtPayload;
+    payload = decoded as unknown as JwtPayload;
+  } catch {
+    return res.status(401).json({ error: "Token inválido" });
+  }
 
-    if (!payload?.sub || !payload?.role) {
-      return res.status(401).json({ error: "Token inválido" });
+  if (!payload?.sub || !payload?.role) {
+    return res.status(401).json({ error: "Token inválido" });
+  }
+
+  // revogação imediata: usuário desativado ou token_version alterada (role/senha/logout geral)
+  try {
+    const state = await getUserAuthState(payload.sub);
+    if (!state || !state.is_active || state.token_version !== (payload.ver ?? 0)) {
+      return res.status(401).json({ error: "Sessão expirada" });
     }
 
-    req.auth = { userId: payload.sub, role: payload.role };
+    req.auth = { userId: payload.sub, role: state.role, tokenVersion: payload.ver ?? 0 };
     return next();
-  } catch {
-    return res.status(401).json({ error: "Token inválido" });
+  } catch (e) {
+    return next(e);
   }
 }
@@ -0,0 +1,20 @@
+import { Request } from "express";
+import { effectiveRole, getProjectMembership } from "../sql";
+
+/**
+ * Troca req.auth.role pela role efetiva no :projectId da URL (consulta uma vez por request).
+ * A role global fica em req.auth.globalRole. Retorna se o usuário é membro do projeto.
+ */
+export async function applyProjectRole(req: Request): Promise<boolean> {
+  const auth = req.auth!;
+  const projectId = req.params.projectId;
+  if (auth.project?.id === projectId) return auth.project.isMember;
+
+  const membership = await getProjectMembership(auth.userId, projectId);
+
+  auth.globalRole = auth.globalRole ?? auth.role;
+  auth.role = effectiveRole(auth.globalRole, membership?.role);
+  auth.project = { id: projectId, isMember: membership !== null };
+
+  return auth.project.isMember;
+}
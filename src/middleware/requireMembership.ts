@@ -1,5 +1,5 @@
 import { NextFunction, Request, Response } from "express";
-import { requireMembership as isMember } from "../sql";
+import { applyProjectRole } from "./projectRole";
 
 export async function requireProjectMembership(req: Request, res: Response, next: NextFunction) {
   const userId = req.auth?.userId;
@@ -8,7 +8,7 @@ export async function requireProjectMembership(req: Request, res: Response, next
   if (!userId) return res.status(401).json({ error: "Não autenticado" });
   if (!projectId) return res.status(400).json({ error: "projectId obrigatório" });
 
-  const ok = await isMember(userId, projectId);
+  const ok = await applyProjectRole(req);
   if (!ok) return res.status(403).json({ error: "Acesso negado (não é membro do projeto)" });
 
   next();
@@ -1,16 +1,13 @@
 // src/middleware/requireProjectAccess.ts
 import { NextFunction, Request, Response } from "express";
-import { requireMembership } from "../sql";
+import { applyProjectRole } from "./projectRole";
 
 export async function requireProjectAccess(req: Request, res: Response, next: NextFunction) {
-  const userId = req.auth!.userId;
-  const role = req.auth!.role;
-  const { projectId } = req.params;
+  const ok = await applyProjectRole(req);
 
   // admin pode tudo
-  if (role === "admin") return next();
+  if (req.auth!.role === "admin") return next();
 
-  const ok = await requireMembership(userId, projectId);
   if (!ok) return res.status(403).json({ error: "Acesso negado" });
 
   return next();
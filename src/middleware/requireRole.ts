@@ -1,11 +1,17 @@
 import { NextFunction, Request, Response } from "express";
 import { Role } from "../types";
+import { applyProjectRole } from "./projectRole";
 
+/**
+ * Em rotas com :projectId, compara com a role efetiva no projeto.
+ */
 export function requireRole(allowed: Role[]) {
-  return (req: Request, res: Response, next: NextFunction) => {
-    const role = req.auth?.role;
-    if (!role) return res.status(401).json({ error: "Não autenticado" });
-    if (!allowed.includes(role)) return res.status(403).json({ error: "Acesso negado" });
+  return async (req: Request, res: Response, next: NextFunction) => {
+    if (!req.auth?.role) return res.status(401).json({ error: "Não autenticado" });
+
+    if (req.params.projectId) await applyProjectRole(req);
+
+    if (!allowed.includes(req.auth.role)) return res.status(403).json({ error: "Acesso negado" });
     next();
   };
 }
@@ -0,0 +1,92 @@
+import { z } from "zod";
+
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+// timestamptz::text do Postgres: "2024-05-01 12:34:56.123456+00"
+const TIMESTAMPTZ_RE = /^(\d{4}-\d{2}-\d{2})[ T]\d{2}:\d{2}:\d{2}(\.\d{1,6})?([+-]\d{2}(:\d{2}){0,2}|Z)$/;
+
+/**
+ * Cursor opaco para paginação keyset: [valor de ordenação (texto), id].
+ */
+export function encodeCursor(sortKey: string, id: string) {
+  return Buffer.from(JSON.stringify([sortKey, id])).toString("base64url");
+}
+
+export function decodeCursor(cursor: string): [string, string] | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, "base64url").toString("utf8"));
+    if (
+      Array.isArray(parsed) &&
+      parsed.length === 2 &&
+      parsed.every((v) => typeof v === "string") &&
+      UUID_RE.test(parsed[1])
+    ) {
+      return [parsed[0], parsed[1]];
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+export const CursorSchema = z.string().transform((c, ctx) => {
+  const decoded = decodeCursor(c);
+  if (!decoded) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: "Cursor inválido" });
+    return z.NEVER;
+  }
+  return decoded;
+});
+
+/**
+ * Lista separada por vírgula em query string (?status=open,done) validada contra um enum.
+ */
+export function csvEnum<T extends [string, ...string[]]>(values: T) {
+  return z
+    .string()
+    .transform((s) => s.split(",").map((v) => v.trim()).filter(Boolean))
+    .pipe(z.array(z.enum(values)).min(1));
+}
+
+export type SortColumn = { expr: string; cast: "int" | "timestamptz" | "text" };
+
+/**
+ * O valor de ordenação do cursor cabe no cast da coluna? (cursor forjado/velho de outra
+ * ordenação não pode chegar no `$n::cast` do Postgres; a rota responde 400 "Cursor inválido")
+ */
+export function cursorFits(cursor: [string, string], cast: SortColumn["cast"]) {
+  const [value] = cursor;
+  if (cast === "int") {
+    return /^-?\d{1,10}$/.test(value) && Math.abs(Number(value)) <= 2_147_483_647;
+  }
+  if (cast === "timestamptz") {
+    const m = TIMESTAMPTZ_RE.exec(value);
+    if (!m || Number.isNaN(Date.parse(value))) return false;
+    const day = new Date(`${m[1]}T00:00:00Z`);
+    return !Number.isNaN(day.getTime()) && day.toISOString().slice(0, 10) === m[1];
+  }
+  return true;
+}
+
+/**
+ * Monta ORDER BY + condição keyset para (expr, id).
+ * `params` é mutado (push dos valores do cursor).
+ */
+export function keyset(
+  sort: SortColumn,
+  idExpr: string,
+  order: "asc" | "desc",
+  cursor: [string, string] | null,
+  params: unknown[]
+) {
+  const dir = order === "asc" ? "ASC" : "DESC";
+  const orderBy = `${sort.expr} ${dir}, ${idExpr} ${dir}`;
+
+  let where: string | null = null;
+  if (cursor) {
+    params.push(cursor[0], cursor[1]);
+    const op = order === "asc" ? ">" : "<";
+    where = `(${sort.expr}, ${idExpr}) ${op} ($${params.length - 1}::${sort.cast}, $${params.length}::uuid)`;
+  }
+
+  return { orderBy, where, sortKeySelect: `(${sort.expr})::text AS sort_key` };
+}
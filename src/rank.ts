@@ -0,0 +1,54 @@
+import { Pool, PoolClient } from "pg";
+
+/**
+ * Rank lexicográfico (base 36) para ordenação manual do backlog.
+ * Sempre existe um rank entre dois outros, então mover um item nunca renumera a lista.
+ * A coluna usa COLLATE "C" para o banco comparar igual ao JS.
+ * Ranks gerados nunca terminam em "0" (senão não haveria espaço logo antes deles).
+ */
+const ALPHABET = "0123456789abcdefghijklmnopqrstuvwxyz";
+const BASE = ALPHABET.length;
+
+function digit(rank: string, i: number) {
+  return ALPHABET.indexOf(rank[i]);
+}
+
+/**
+ * Rank estritamente entre `before` e `after` (null = sem limite).
+ */
+export function rankBetween(before: string | null, after: string | null): string {
+  const lower = before ?? "";
+  if (after !== null && lower >= after) {
+    throw new Error(`rankBetween: "${lower}" >= "${after}"`);
+  }
+
+  let out = "";
+  let upperBounded = after !== null;
+
+  for (let i = 0; ; i++) {
+    const lo = i < lower.length ? digit(lower, i) : 0;
+    const hi = upperBounded ? digit(after!, i) : BASE;
+    if (hi < lo) throw new Error(`rankBetween: sem espaço antes de "${after}"`);
+
+    if (hi - lo > 1) {
+      // sem um dos limites, anda de um em um para o rank crescer devagar
+      if (i >= lower.length && upperBounded) return out + ALPHABET[hi - 1];
+      if (!upperBounded && i < lower.length) return out + ALPHABET[lo + 1];
+      return out + ALPHABET[Math.floor((lo + hi) / 2)];
+    }
+
+    out += ALPHABET[lo];
+    if (hi - lo === 1) upperBounded = false;
+  }
+}
+
+/**
+ * Rank para um item novo: entra no topo do projeto (mesmo lugar que created_at DESC o colocava).
+ */
+export async function topRank(db: Pool | PoolClient, projectId: string) {
+  const { rows } = await db.query(
+    `SELECT MIN(rank) as rank FROM backlog_items WHERE project_id = $1`,
+    [projectId]
+  );
+  return rankBetween(null, rows[0]?.rank ?? null);
+}
@@ -0,0 +1,65 @@
+import { Router } from "express";
+import { z } from "zod";
+import { pool } from "../db";
+import { authRequired } from "../middleware/auth";
+import { requireRole } from "../middleware/requireRole";
+
+export const adminAuditRoutes = Router();
+
+/**
+ * GET /api/admin/audit
+ * query: { project_id?, actor_user_id?, action?, entity_type?, entity_id?, from?, to?, limit?, cursor? }
+ * Retorna { items, next_cursor } do mais recente para o mais antigo.
+ * next_cursor = id do último item; passar em ?cursor= para a próxima página.
+ */
+adminAuditRoutes.get(
+  "/admin/audit",
+  authRequired,
+  requireRole(["admin"]),
+  async (req, res) => {
+    const q = z.object({
+      project_id: z.string().uuid().optional(),
+      actor_user_id: z.string().uuid().optional(),
+      action: z.string().max(100).optional(),
+      entity_type: z.string().max(50).optional(),
+      entity_id: z.string().max(100).optional(),
+      from: z.coerce.date().optional(),
+      to: z.coerce.date().optional(),
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+      cursor: z.coerce.number().int().positive().optional(),
+    }).parse(req.query);
+
+    const { rows } = await pool.query(
+      `SELECT a.id, a.project_id, p.name as project_name,
+              a.actor_user_id, u.name as actor_name, u.email as actor_email,
+              a.action, a.entity_type, a.entity_id, a.before, a.after, a.created_at
+       FROM audit_events a
+       JOIN users u ON u.id = a.actor_user_id
+       LEFT JOIN projects p ON p.id = a.project_id
+       WHERE ($1::uuid IS NULL OR a.project_id = $1)
+         AND ($2::uuid IS NULL OR a.actor_user_id = $2)
+         AND ($3::text IS NULL OR a.action = $3)
+         AND ($4::text IS NULL OR a.entity_type = $4)
+         AND ($5::text IS NULL OR a.entity_id = $5)
+         AND ($6::timestamptz IS NULL OR a.created_at >= $6)
+         AND ($7::timestamptz IS NULL OR a.created_at < $7)
+         AND ($8::bigint IS NULL OR a.id < $8)
+       ORDER BY a.id DESC
+       LIMIT $9`,
+      [
+        q.project_id ?? null,
+        q.actor_user_id ?? null,
+        q.action ?? null,
+        q.entity_type ?? null,
+        q.entity_id ?? null,
+        q.from ?? null,
+        q.to ?? null,
+        q.cursor ?? null,
+        q.limit,
+      ]
+    );
+
+    const next_cursor = rows.length === q.limit ? String(rows[rows.length - 1].id) : null;
+    return res.json({ items: rows, next_cursor });
+  }
+);
@@ -3,6 +3,7 @@ import { z } from "zod";
 import { pool } from "../db";
 import { authRequired } from "../middleware/auth";
 import { requireRole } from "../middleware/requireRole";
+import { recordAudit } from "../services/audit.service";
 
 export const adminMembershipRoutes = Router();
 
@@ -25,9 +26,13 @@ export const adminMembershipRoutes = Router();
 //   }
 // );
 
+const ProjectRoleSchema = z.enum(["user", "developer", "manager"]);
+
 /**
  * GET /api/admin/projects/:projectId/members
- * Retorna { items: ProjectMembership[] } onde ProjectMembership = { project_id, user_id }
+ * Retorna { items: ProjectMembership[] } onde
+ * ProjectMembership = { project_id, user_id, role, global_role, effective_role }
+ * (role null = herda a global)
  */
 adminMembershipRoutes.get(
   "/admin/projects/:projectId/members",
@@ -41,9 +46,13 @@ adminMembershipRoutes.get(
     if (p.rows.length === 0) return res.status(404).json({ error: "Projeto não encontrado" });
 
     const { rows } = await pool.query(
-      `SELECT project_id, user_id
-       FROM project_members
-       WHERE project_id = $1`,
+      `SELECT pm.project_id, pm.user_id, u.name as user_name, u.email as user_email,
+              pm.role, u.role as global_role,
+              CASE WHEN u.role = 'admin' THEN 'admin' ELSE COALESCE(pm.role, u.role) END as effective_role
+       FROM project_members pm
+       JOIN users u ON u.id = pm.user_id
+       WHERE pm.project_id = $1
+       ORDER BY u.name ASC`,
       [projectId]
     );
 
@@ -53,7 +62,7 @@ adminMembershipRoutes.get(
 
 /**
  * POST /api/admin/projects/:projectId/members
- * body: { user_id: string }
+ * body: { user_id: string, role?: user|developer|manager|null }
  */
 adminMembershipRoutes.post(
   "/admin/projects/:projectId/members",
@@ -64,6 +73,7 @@ adminMembershipRoutes.post(
 
     const body = z.object({
       user_id: z.string().uuid(),
+      role: ProjectRoleSchema.nullable().optional(),
     }).parse(req.body);
 
     // valida projeto e user
@@ -74,14 +84,97 @@ adminMembershipRoutes.post(
     if (p.rows.length === 0) return res.status(404).json({ error: "Projeto não encontrado" });
     if (u.rows.length === 0) return res.status(404).json({ error: "Usuário não encontrado" });
 
-    await pool.query(
-      `INSERT INTO project_members (project_id, user_id)
-       VALUES ($1, $2)
-       ON CONFLICT DO NOTHING`,
-      [projectId, body.user_id]
-    );
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const ins = await client.query(
+        `INSERT INTO project_members (project_id, user_id, role)
+         VALUES ($1, $2, $3)
+         ON CONFLICT DO NOTHING`,
+        [projectId, body.user_id, body.role ?? null]
+      );
+
+      // só registra se de fato criou o vínculo
+      if (ins.rowCount) {
+        await recordAudit(client, {
+          projectId,
+          actorUserId: req.auth!.userId,
+          action: "project_member.add",
+          entityType: "project_member",
+          entityId: body.user_id,
+          after: { project_id: projectId, user_id: body.user_id, role: body.role ?? null },
+        });
+      }
+
+      await client.query("COMMIT");
+      return res.status(201).json({ ok: true });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/projects/:projectId/members/:userId
+ * body: { role: user|developer|manager|null } (null volta a herdar a global)
+ */
+adminMembershipRoutes.patch(
+  "/admin/projects/:projectId/members/:userId",
+  authRequired,
+  requireRole(["admin"]),
+  async (req, res) => {
+    const { projectId, userId } = req.params;
+
+    const body = z.object({
+      role: ProjectRoleSchema.nullable(),
+    }).parse(req.body);
 
-    return res.status(201).json({ ok: true });
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const beforeRes = await client.query(
+        `SELECT role
+         FROM project_members
+         WHERE project_id = $1 AND user_id = $2
+         FOR UPDATE`,
+        [projectId, userId]
+      );
+      if (beforeRes.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Atrelamento não encontrado" });
+      }
+
+      const { rows } = await client.query(
+        `UPDATE project_members
+         SET role = $1
+         WHERE project_id = $2 AND user_id = $3
+         RETURNING project_id, user_id, role`,
+        [body.role, projectId, userId]
+      );
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: req.auth!.userId,
+        action: "project_member.update",
+        entityType: "project_member",
+        entityId: userId,
+        before: { role: beforeRes.rows[0].role },
+        after: { role: body.role },
+      });
+
+      await client.query("COMMIT");
+      return res.json(rows[0]);
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
   }
 );
 
@@ -95,16 +188,37 @@ adminMembershipRoutes.delete(
   async (req, res) => {
     const { projectId, userId } = req.params;
 
-    const del = await pool.query(
-      `DELETE FROM project_members
-       WHERE project_id = $1 AND user_id = $2`,
-      [projectId, userId]
-    );
-
-    if (del.rowCount === 0) {
-      return res.status(404).json({ error: "Atrelamento não encontrado" });
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const del = await client.query(
+        `DELETE FROM project_members
+         WHERE project_id = $1 AND user_id = $2`,
+        [projectId, userId]
+      );
+
+      if (del.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Atrelamento não encontrado" });
+      }
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: req.auth!.userId,
+        action: "project_member.remove",
+        entityType: "project_member",
+        entityId: userId,
+        before: { project_id: projectId, user_id: userId },
+      });
+
+      await client.query("COMMIT");
+      return res.json({ ok: true });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
     }
-
-    return res.json({ ok: true });
   }
 );
@@ -1,9 +1,21 @@
 // src/routes/admin.projects.routes.ts
-import { Router } from "express";
+import express, { Router } from "express";
 import { z } from "zod";
 import { pool } from "../db";
 import { authRequired } from "../middleware/auth";
 import { requireRole } from "../middleware/requireRole";
+import { recordAudit } from "../services/audit.service";
+import { recalcProjectProgress } from "../services/progress.service";
+import { findInvalidStackCodes } from "../services/stacks.service";
+import { StackCodeSchema } from "../schemas";
+import {
+  ARCHIVE_FORMAT,
+  ARCHIVE_VERSION,
+  ProjectArchiveSchema,
+  applyProjectImport,
+  checkProjectImport,
+  exportProject,
+} from "../services/projectArchive.service";
 
 export const adminProjectsRoutes = Router();
 
@@ -57,6 +69,15 @@ adminProjectsRoutes.post("/admin/projects", async (req, res) => {
       [project.id, adminId]
     );
 
+    await recordAudit(client, {
+      projectId: project.id,
+      actorUserId: adminId,
+      action: "project.create",
+      entityType: "project",
+      entityId: project.id,
+      after: { name: project.name, description: project.description, status: project.status },
+    });
+
     await client.query("COMMIT");
     return res.status(201).json(project);
   } catch (e: any) {
@@ -69,7 +90,10 @@ adminProjectsRoutes.post("/admin/projects", async (req, res) => {
 
 /**
  * PATCH /api/admin/projects/:projectId
- * body: { name?, description?, status? }
+ * body: { name?, description?, status?, progress_strategy?, progress_stack_weights? }
+ * - progress_strategy: task_count | effort | stack_weighted
+ * - progress_stack_weights: { [stack]: peso } (stack sem peso = 1; item só com peso 0 usa contagem de tasks)
+ * - mudar estratégia/pesos recalcula o progresso de todos os itens ativos
  */
 adminProjectsRoutes.patch("/admin/projects/:projectId", async (req, res) => {
   const { projectId } = req.params;
@@ -78,13 +102,14 @@ adminProjectsRoutes.patch("/admin/projects/:projectId", async (req, res) => {
     name: z.string().min(2).max(120).optional(),
     description: z.string().max(1000).optional().nullable(),
     status: z.enum(["active", "archived"]).optional(),
+    progress_strategy: z.enum(["task_count", "effort", "stack_weighted"]).optional(),
+    progress_stack_weights: z.record(StackCodeSchema, z.number().min(0).max(100)).optional(),
   }).refine((v) => Object.keys(v).length > 0, "Nada para atualizar").parse(req.body);
 
-  const exists = await pool.query(
-    `SELECT id FROM projects WHERE id = $1`,
-    [projectId]
-  );
-  if (exists.rowCount === 0) return res.status(404).json({ error: "Projeto não encontrado" });
+  if (body.progress_stack_weights) {
+    const invalid = await findInvalidStackCodes(Object.keys(body.progress_stack_weights));
+    if (invalid.length > 0) return res.status(400).json({ error: `Stack inválida: ${invalid.join(", ")}` });
+  }
 
   const fields: string[] = [];
   const values: any[] = [];
@@ -93,19 +118,69 @@ adminProjectsRoutes.patch("/admin/projects/:projectId", async (req, res) => {
   if (body.name !== undefined) { fields.push(`name = $${idx++}`); values.push(body.name); }
   if (body.description !== undefined) { fields.push(`description = $${idx++}`); values.push(body.description); }
   if (body.status !== undefined) { fields.push(`status = $${idx++}`); values.push(body.status); }
+  if (body.progress_strategy !== undefined) { fields.push(`progress_strategy = $${idx++}`); values.push(body.progress_strategy); }
+  if (body.progress_stack_weights !== undefined) {
+    fields.push(`progress_stack_weights = $${idx++}::jsonb`);
+    values.push(JSON.stringify(body.progress_stack_weights));
+  }
 
   values.push(projectId);
 
-  const { rows } = await pool.query(
-    `UPDATE projects
-     SET ${fields.join(", ")},
-         updated_at = now()
-     WHERE id = $${idx}
-     RETURNING id, name, description, status, created_at, is_active, deleted_at`,
-    values
-  );
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const beforeRes = await client.query(
+      `SELECT name, description, status, progress_strategy, progress_stack_weights
+       FROM projects WHERE id = $1 FOR UPDATE`,
+      [projectId]
+    );
+    if (beforeRes.rowCount === 0) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Projeto não encontrado" });
+    }
+
+    const { rows } = await client.query(
+      `UPDATE projects
+       SET ${fields.join(", ")},
+           updated_at = now()
+       WHERE id = $${idx}
+       RETURNING id, name, description, status, created_at, is_active, deleted_at,
+                 progress_strategy, progress_stack_weights`,
+      values
+    );
+
+    const before = beforeRes.rows[0];
+    const after = rows[0];
+    const progressChanged =
+      before.progress_strategy !== after.progress_strategy ||
+      JSON.stringify(before.progress_stack_weights) !== JSON.stringify(after.progress_stack_weights);
+    const recalculated = progressChanged ? await recalcProjectProgress(client, projectId) : null;
+
+    await recordAudit(client, {
+      projectId,
+      actorUserId: req.auth!.userId,
+      action: "project.update",
+      entityType: "project",
+      entityId: projectId,
+      before,
+      after: {
+        name: after.name,
+        description: after.description,
+        status: after.status,
+        progress_strategy: after.progress_strategy,
+        progress_stack_weights: after.progress_stack_weights,
+      },
+    });
 
-  return res.json(rows[0]);
+    await client.query("COMMIT");
+    return res.json({ ...after, recalculated: recalculated ?? undefined });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
 });
 
 /**
@@ -118,20 +193,44 @@ adminProjectsRoutes.delete("/admin/projects/:projectId", async (req, res) => {
   const { projectId } = req.params;
   const adminId = req.auth!.userId;
 
-  const upd = await pool.query(
-    `UPDATE projects
-     SET is_active = false,
-         deleted_at = now(),
-         deleted_by_user_id = $1,
-         updated_at = now()
-     WHERE id = $2 AND is_active = true
-     RETURNING id`,
-    [adminId, projectId]
-  );
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
 
-  if (upd.rowCount === 0) return res.status(404).json({ error: "Projeto não encontrado" });
+    const upd = await client.query(
+      `UPDATE projects
+       SET is_active = false,
+           deleted_at = now(),
+           deleted_by_user_id = $1,
+           updated_at = now()
+       WHERE id = $2 AND is_active = true
+       RETURNING id`,
+      [adminId, projectId]
+    );
+
+    if (upd.rowCount === 0) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Projeto não encontrado" });
+    }
+
+    await recordAudit(client, {
+      projectId,
+      actorUserId: adminId,
+      action: "project.delete",
+      entityType: "project",
+      entityId: projectId,
+      before: { is_active: true },
+      after: { is_active: false },
+    });
 
-  return res.json({ ok: true });
+    await client.query("COMMIT");
+    return res.json({ ok: true });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
 });
 
 /**
@@ -141,18 +240,134 @@ adminProjectsRoutes.delete("/admin/projects/:projectId", async (req, res) => {
 adminProjectsRoutes.post("/admin/projects/:projectId/restore", async (req, res) => {
   const { projectId } = req.params;
 
-  const upd = await pool.query(
-    `UPDATE projects
-     SET is_active = true,
-         deleted_at = NULL,
-         deleted_by_user_id = NULL,
-         updated_at = now()
-     WHERE id = $1
-     RETURNING id, name, description, status, created_at, is_active, deleted_at`,
-    [projectId]
-  );
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
 
-  if (upd.rowCount === 0) return res.status(404).json({ error: "Projeto não encontrado" });
+    const upd = await client.query(
+      `UPDATE projects
+       SET is_active = true,
+           deleted_at = NULL,
+           deleted_by_user_id = NULL,
+           updated_at = now()
+       WHERE id = $1
+       RETURNING id, name, description, status, created_at, is_active, deleted_at`,
+      [projectId]
+    );
+
+    if (upd.rowCount === 0) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Projeto não encontrado" });
+    }
+
+    await recordAudit(client, {
+      projectId,
+      actorUserId: req.auth!.userId,
+      action: "project.restore",
+      entityType: "project",
+      entityId: projectId,
+      before: { is_active: false },
+      after: { is_active: true },
+    });
+
+    await client.query("COMMIT");
+    return res.json(upd.rows[0]);
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * GET /api/admin/projects/:projectId/export
+ * arquivo JSON versionado do projeto (membros, milestones, sugestões, votos, backlog e tasks)
+ * usuários referenciados por e-mail e stacks por código
+ */
+adminProjectsRoutes.get("/admin/projects/:projectId/export", async (req, res) => {
+  const archive = await exportProject(req.params.projectId);
+  if (!archive) return res.status(404).json({ error: "Projeto não encontrado" });
+
+  const slug = archive.project.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "projeto";
+  res.setHeader("Content-Disposition", `attachment; filename="${slug}.json"`);
+  return res.json(archive);
+});
+
+// o parser JSON global (1mb) pula este caminho; o corpo é lido só depois de authRequired + admin
+export const PROJECT_IMPORT_PATH = /^\/api\/admin\/projects\/import\/?$/i;
+
+/**
+ * POST /api/admin/projects/import
+ * body: arquivo gerado pelo export
+ * query: { dry_run?=true, missing_users?=report|importer, name? }
+ * - cria um projeto novo (ids novos), vínculos sugestão <-> backlog preservados
+ * - conflitos (usuário/stack inexistente, referência quebrada) => 409 com o relatório, nada é gravado
+ * - missing_users=importer: conteúdo de usuários ausentes fica com o admin; votos e atribuições deles são descartados
+ */
+adminProjectsRoutes.post("/admin/projects/import", express.json({ limit: "25mb" }), async (req, res) => {
+  const q = z.object({
+    dry_run: z.enum(["true", "false"]).transform((v) => v === "true").default("false"),
+    missing_users: z.enum(["report", "importer"]).default("report"),
+    name: z.string().min(2).max(120).optional(),
+  }).parse(req.query);
+
+  const version = req.body?.version;
+  if (req.body?.format !== ARCHIVE_FORMAT || version !== ARCHIVE_VERSION) {
+    return res.status(400).json({ error: `Arquivo inválido: esperado format=${ARCHIVE_FORMAT} version=${ARCHIVE_VERSION}` });
+  }
+  const archive = ProjectArchiveSchema.parse(req.body);
+  const opts = { missingUsers: q.missing_users, name: q.name };
+  const adminId = req.auth!.userId;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const check = await checkProjectImport(client, archive, opts);
+    const report = {
+      dry_run: q.dry_run,
+      valid: check.conflicts.length === 0,
+      conflicts: check.conflicts,
+      warnings: check.warnings,
+      summary: {
+        members: archive.members.length,
+        milestones: archive.milestones.length,
+        suggestions: archive.suggestions.length,
+        votes: archive.votes.length,
+        backlog_items: archive.backlog_items.length,
+        tasks: archive.tasks.length,
+        task_dependencies: archive.task_dependencies.length,
+      },
+    };
 
-  return res.json(upd.rows[0]);
+    if (q.dry_run || !report.valid) {
+      await client.query("ROLLBACK");
+      return res.status(report.valid ? 200 : 409).json(report);
+    }
+
+    const result = await applyProjectImport(client, archive, opts, { ...check, importerId: adminId });
+
+    await recordAudit(client, {
+      projectId: result.project.id,
+      actorUserId: adminId,
+      action: "project.import",
+      entityType: "project",
+      entityId: result.project.id,
+      after: {
+        name: result.project.name,
+        source_project_id: archive.project.id,
+        exported_at: archive.exported_at,
+        counts: result.counts,
+      },
+    });
+
+    await client.query("COMMIT");
+    return res.status(201).json({ ...report, project: result.project, summary: result.counts });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
 });
@@ -0,0 +1,231 @@
+import { Router } from "express";
+import { z } from "zod";
+import { pool } from "../db";
+import { authRequired } from "../middleware/auth";
+import { requireRole } from "../middleware/requireRole";
+import { recordAudit } from "../services/audit.service";
+import { countOpenTasksForStack } from "../services/stacks.service";
+import { StackCodeSchema } from "../schemas";
+
+export const adminStacksRoutes = Router();
+
+const LabelSchema = z.string().trim().min(1).max(60);
+
+const STACK_COLUMNS = `id, code, label, is_active, created_at, updated_at`;
+
+/**
+ * GET /api/stacks
+ * Stacks ativas (para selects de task/usuário). Qualquer usuário autenticado.
+ */
+adminStacksRoutes.get("/stacks", authRequired, async (_req, res) => {
+  const { rows } = await pool.query(
+    `SELECT id, code, label
+     FROM developer_stacks
+     WHERE is_active = true
+     ORDER BY label ASC`
+  );
+  return res.json({ items: rows });
+});
+
+/**
+ * GET /api/admin/stacks
+ * Todas (inclui inativas) com uso: usuários, tasks e tasks em aberto.
+ */
+adminStacksRoutes.get(
+  "/admin/stacks",
+  authRequired,
+  requireRole(["admin"]),
+  async (_req, res) => {
+    const { rows } = await pool.query(
+      `SELECT ds.id, ds.code, ds.label, ds.is_active, ds.created_at, ds.updated_at,
+              (SELECT COUNT(*)::int FROM user_developer_stacks uds WHERE uds.stack_id = ds.id) as users_count,
+              (SELECT COUNT(*)::int FROM backlog_tasks t WHERE t.stack_id = ds.id) as tasks_count,
+              (SELECT COUNT(*)::int
+                 FROM backlog_tasks t
+                 JOIN backlog_items b ON b.id = t.backlog_item_id
+                WHERE t.stack_id = ds.id AND t.is_done = false AND b.is_active = true) as open_tasks_count
+       FROM developer_stacks ds
+       ORDER BY ds.is_active DESC, ds.label ASC`
+    );
+    return res.json({ items: rows });
+  }
+);
+
+/**
+ * POST /api/admin/stacks
+ * body: { code, label }
+ */
+adminStacksRoutes.post(
+  "/admin/stacks",
+  authRequired,
+  requireRole(["admin"]),
+  async (req, res) => {
+    const body = z.object({
+      code: StackCodeSchema,
+      label: LabelSchema,
+    }).parse(req.body);
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const { rows } = await client.query(
+        `INSERT INTO developer_stacks (code, label)
+         VALUES ($1, $2)
+         RETURNING ${STACK_COLUMNS}`,
+        [body.code, body.label]
+      );
+
+      await recordAudit(client, {
+        actorUserId: req.auth!.userId,
+        action: "stack.create",
+        entityType: "stack",
+        entityId: String(rows[0].id),
+        after: rows[0],
+      });
+
+      await client.query("COMMIT");
+      return res.status(201).json(rows[0]);
+    } catch (e: any) {
+      await client.query("ROLLBACK");
+      if (String(e?.code) === "23505") {
+        return res.status(409).json({ error: "Código de stack já existe" });
+      }
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/stacks/:stackId
+ * body: { label?, is_active? }
+ * - código é imutável (é o que tasks/usuários/clientes referenciam)
+ * - desativar é bloqueado (409) enquanto houver tasks em aberto na stack
+ */
+adminStacksRoutes.patch(
+  "/admin/stacks/:stackId",
+  authRequired,
+  requireRole(["admin"]),
+  async (req, res) => {
+    const stackId = z.coerce.number().int().positive().parse(req.params.stackId);
+
+    const body = z.object({
+      label: LabelSchema.optional(),
+      is_active: z.boolean().optional(),
+    }).refine((v) => Object.keys(v).length > 0, "Nada para atualizar").parse(req.body);
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const beforeRes = await client.query(
+        `SELECT ${STACK_COLUMNS} FROM developer_stacks WHERE id = $1 FOR UPDATE`,
+        [stackId]
+      );
+      const before = beforeRes.rows[0];
+      if (!before) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Stack não encontrada" });
+      }
+
+      if (body.is_active === false && before.is_active) {
+        const openTasks = await countOpenTasksForStack(stackId, client);
+        if (openTasks > 0) {
+          await client.query("ROLLBACK");
+          return res.status(409).json({
+            error: "Stack tem tasks em aberto; conclua ou mova as tasks antes de desativar",
+            open_tasks_count: openTasks,
+          });
+        }
+      }
+
+      const { rows } = await client.query(
+        `UPDATE developer_stacks
+         SET label = COALESCE($1, label),
+             is_active = COALESCE($2, is_active),
+             updated_at = now()
+         WHERE id = $3
+         RETURNING ${STACK_COLUMNS}`,
+        [body.label ?? null, body.is_active ?? null, stackId]
+      );
+
+      await recordAudit(client, {
+        actorUserId: req.auth!.userId,
+        action: "stack.update",
+        entityType: "stack",
+        entityId: String(stackId),
+        before,
+        after: rows[0],
+      });
+
+      await client.query("COMMIT");
+      return res.json(rows[0]);
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/stacks/:stackId
+ * Só apaga stack nunca usada (sem tasks nem usuários); senão, desative.
+ */
+adminStacksRoutes.delete(
+  "/admin/stacks/:stackId",
+  authRequired,
+  requireRole(["admin"]),
+  async (req, res) => {
+    const stackId = z.coerce.number().int().positive().parse(req.params.stackId);
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const usage = await client.query(
+        `SELECT
+           (SELECT COUNT(*)::int FROM user_developer_stacks WHERE stack_id = $1) as users_count,
+           (SELECT COUNT(*)::int FROM backlog_tasks WHERE stack_id = $1) as tasks_count`,
+        [stackId]
+      );
+      const { users_count, tasks_count } = usage.rows[0];
+      if (users_count > 0 || tasks_count > 0) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({
+          error: "Stack em uso; desative em vez de remover",
+          users_count,
+          tasks_count,
+        });
+      }
+
+      const del = await client.query(
+        `DELETE FROM developer_stacks WHERE id = $1 RETURNING ${STACK_COLUMNS}`,
+        [stackId]
+      );
+      if (del.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Stack não encontrada" });
+      }
+
+      await recordAudit(client, {
+        actorUserId: req.auth!.userId,
+        action: "stack.delete",
+        entityType: "stack",
+        entityId: String(stackId),
+        before: del.rows[0],
+      });
+
+      await client.query("COMMIT");
+      return res.json({ ok: true });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
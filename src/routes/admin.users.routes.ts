@@ -1,19 +1,26 @@
-import { Router } from "express";
+import express, { Router } from "express";
 import { z } from "zod";
-import bcrypt from "bcryptjs";
+import { Pool, PoolClient } from "pg";
 import { pool } from "../db";
 import { authRequired } from "../middleware/auth";
 import { requireRole } from "../middleware/requireRole";
+import { recordAudit } from "../services/audit.service";
+import { revokeUserSessions } from "../services/session.service";
+import { hashPassword } from "../services/password.service";
+import { EmailSchema, PasswordSchema, RoleSchema, StackSchema } from "../schemas";
+import { findInvalidStackCodes } from "../services/stacks.service";
+import { applyUserImport, planUserImport } from "../services/userImport.service";
 
 export const adminUsersRoutes = Router();
 
 /**
  * Helpers
  */
-async function getStacksForUsers(userIds: string[]) {
+// `db`: passe o client para ler dentro da transação do chamador
+async function getStacksForUsers(userIds: string[], db: Pool | PoolClient = pool) {
   if (userIds.length === 0) return new Map<string, string[]>();
 
-  const { rows } = await pool.query(
+  const { rows } = await db.query(
     `SELECT uds.user_id, ds.code
      FROM user_developer_stacks uds
      JOIN developer_stacks ds ON ds.id = uds.stack_id
@@ -31,39 +38,17 @@ async function getStacksForUsers(userIds: string[]) {
   return map;
 }
 
-async function setUserStacks(userId: string, stacks: string[]) {
-  const client = await pool.connect();
-  try {
-    await client.query("BEGIN");
+// roda dentro da transação do chamador; códigos já validados (findInvalidStackCodes)
+async function setUserStacks(client: PoolClient, userId: string, stacks: string[]) {
+  await client.query(`DELETE FROM user_developer_stacks WHERE user_id = $1`, [userId]);
 
-    await client.query(`DELETE FROM user_developer_stacks WHERE user_id = $1`, [userId]);
-
-    for (const code of stacks) {
-      const stackIdRes = await client.query(`SELECT id FROM developer_stacks WHERE code = $1`, [code]);
-      const stackId = stackIdRes.rows[0]?.id;
-      if (!stackId) throw new Error(`Stack inválida: ${code}`);
-
-      await client.query(
-        `INSERT INTO user_developer_stacks (user_id, stack_id) VALUES ($1, $2)`,
-        [userId, stackId]
-      );
-    }
-
-    await client.query("COMMIT");
-  } catch (e) {
-    await client.query("ROLLBACK");
-    throw e;
-  } finally {
-    client.release();
-  }
+  await client.query(
+    `INSERT INTO user_developer_stacks (user_id, stack_id)
+     SELECT $1, id FROM developer_stacks WHERE code = ANY($2::text[])`,
+    [userId, stacks]
+  );
 }
 
-/**
- * Schema
- */
-const RoleSchema = z.enum(["user", "manager", "developer", "admin"]);
-const StackSchema = z.array(z.enum(["frontend", "backend", "infra"])).default([]);
-
 /**
  * GET /api/admin/users
  * Retorna { items: User[] } no formato que o front espera.
@@ -144,13 +129,18 @@ adminUsersRoutes.post(
   async (req, res) => {
     const body = z.object({
       name: z.string().min(1).max(120),
-      email: z.string().email().max(200),
+      email: EmailSchema,
       role: RoleSchema,
-      password: z.string().min(6).max(200),
+      password: PasswordSchema,
       stacks: StackSchema.optional(),
     }).parse(req.body);
 
-    const password_hash = await bcrypt.hash(body.password, 10);
+    const invalidStacks = await findInvalidStackCodes(body.stacks ?? []);
+    if (invalidStacks.length > 0) {
+      return res.status(400).json({ error: `Stack inválida: ${invalidStacks.join(", ")}` });
+    }
+
+    const password_hash = await hashPassword(body.password);
 
     const client = await pool.connect();
     try {
@@ -169,14 +159,17 @@ adminUsersRoutes.post(
       // se for user/manager, stacks devem ficar vazias
       const finalStacks = (body.role === "developer" || body.role === "admin") ? stacks : [];
 
-      await client.query("COMMIT");
+      await setUserStacks(client, user.id, finalStacks);
 
-      // stacks fora da transação (ou dentro, tanto faz) — aqui vou fazer fora usando helper:
-      if (finalStacks.length > 0) {
-        await setUserStacks(user.id, finalStacks);
-      } else {
-        await pool.query(`DELETE FROM user_developer_stacks WHERE user_id = $1`, [user.id]);
-      }
+      await recordAudit(client, {
+        actorUserId: req.auth!.userId,
+        action: "user.create",
+        entityType: "user",
+        entityId: user.id,
+        after: { name: user.name, email: user.email, role: user.role, stacks: finalStacks },
+      });
+
+      await client.query("COMMIT");
 
       return res.status(201).json({
         id: user.id,
@@ -199,6 +192,75 @@ adminUsersRoutes.post(
   }
 );
 
+/**
+ * POST /api/admin/users/import
+ * body: CSV (text/csv) ou JSON { csv }
+ * query: { dry_run?=true|false (padrão true), update_existing?=true|false (padrão false), credentials?=password|reset_link }
+ * - dry_run (padrão): só valida e devolve o relatório por linha; gravar exige dry_run=false
+ * - commit: tudo ou nada (qualquer linha com erro => 422 com o relatório)
+ * - retorna senha temporária ou link de reset dos usuários criados
+ */
+adminUsersRoutes.post(
+  "/admin/users/import",
+  authRequired,
+  requireRole(["admin"]),
+  express.text({ type: ["text/csv", "text/plain"], limit: "2mb" }),
+  async (req, res) => {
+    const q = z.object({
+      dry_run: z.enum(["true", "false"]).transform((v) => v === "true").default("true"),
+      update_existing: z.enum(["true", "false"]).transform((v) => v === "true").default("false"),
+      credentials: z.enum(["password", "reset_link"]).default("reset_link"),
+    }).parse(req.query);
+
+    const csv = typeof req.body === "string"
+      ? req.body
+      : z.object({ csv: z.string().min(1) }).parse(req.body).csv;
+
+    const opts = { updateExisting: q.update_existing, credentials: q.credentials };
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const plan = await planUserImport(client, csv, opts);
+      const report = {
+        dry_run: q.dry_run,
+        summary: {
+          rows: plan.rows.length,
+          create: plan.rows.filter((r) => r.action === "create").length,
+          update: plan.rows.filter((r) => r.action === "update").length,
+          errors: plan.rows.filter((r) => r.action === "error").length,
+        },
+        errors: plan.headerErrors,
+        rows: plan.rows.map(({ data, ...r }) => ({
+          ...r,
+          projects: data?.projects.map((p) => ({ id: p.id, name: p.name, role: p.role })) ?? [],
+        })),
+      };
+      const valid = plan.headerErrors.length === 0 && report.summary.errors === 0 && plan.rows.length > 0;
+
+      if (q.dry_run || !valid) {
+        await client.query("ROLLBACK");
+        return res.status(q.dry_run || valid ? 200 : 422).json({ ...report, valid });
+      }
+
+      const credentials = await applyUserImport(client, plan.rows, opts, req.auth!.userId);
+
+      await client.query("COMMIT");
+      return res.status(201).json({ ...report, valid, credentials });
+    } catch (e: any) {
+      await client.query("ROLLBACK");
+      // corrida com outro cadastro do mesmo e-mail entre a validação e o insert
+      if (String(e?.code) === "23505") {
+        return res.status(409).json({ error: "E-mail já cadastrado (tente o dry-run novamente)" });
+      }
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
 /**
  * PATCH /api/admin/users/:userId
  * body: { name?, email?, role?, password?, stacks? }
@@ -217,7 +279,7 @@ adminUsersRoutes.patch(
       .object({
         name: z.string().min(2).optional(),
         email: z.string().email().optional(),
-        role: z.enum(["user", "manager", "developer", "admin"]).optional(), // ✅ inclui manager
+        role: RoleSchema.optional(), // ✅ inclui manager
         password: z.string().min(6).optional(),
         stacks: StackSchema.optional(),
       })
@@ -230,6 +292,11 @@ adminUsersRoutes.patch(
       return res.status(400).json({ error: e.errors?.[0]?.message || "Payload inválido" });
     }
 
+    const invalidStacks = await findInvalidStackCodes(body.stacks ?? []);
+    if (invalidStacks.length > 0) {
+      return res.status(400).json({ error: `Stack inválida: ${invalidStacks.join(", ")}` });
+    }
+
     // valida usuário existe
     const exists = await pool.query(`SELECT id FROM users WHERE id = $1`, [userId]);
     if (exists.rowCount === 0) return res.status(404).json({ error: "Usuário não encontrado" });
@@ -238,9 +305,15 @@ adminUsersRoutes.patch(
     try {
       await client.query("BEGIN");
 
+      const beforeRes = await client.query(
+        `SELECT name, email, role FROM users WHERE id = $1 FOR UPDATE`,
+        [userId]
+      );
+      const beforeStacks = (await getStacksForUsers([userId], client)).get(userId) ?? [];
+
       // 🔐 senha (opcional) -> coluna CERTA: password_hash
       if (body.password) {
-        const hash = await bcrypt.hash(body.password, 10);
+        const hash = await hashPassword(body.password);
         await client.query(
           `UPDATE users SET password_hash = $1, updated_at = now() WHERE id = $2`,
           [hash, userId]
@@ -282,35 +355,19 @@ adminUsersRoutes.patch(
       if (body.stacks !== undefined) {
         const finalStacks = (currentRole === "developer" || currentRole === "admin") ? body.stacks : [];
 
-        // limpa relação correta
-        await client.query(`DELETE FROM user_developer_stacks WHERE user_id = $1`, [userId]);
-
-        for (const code of finalStacks) {
-          const stackRes = await client.query(
-            `SELECT id FROM developer_stacks WHERE code = $1`,
-            [code]
-          );
-          if (stackRes.rowCount === 0) throw new Error(`Stack inválida: ${code}`);
-
-          await client.query(
-            `INSERT INTO user_developer_stacks (user_id, stack_id) VALUES ($1, $2)`,
-            [userId, stackRes.rows[0].id]
-          );
-        }
+        await setUserStacks(client, userId, finalStacks);
       } else if (currentRole !== "developer" && currentRole !== "admin") {
         // se não mandou stacks mas virou user/manager, garante limpeza
         await client.query(`DELETE FROM user_developer_stacks WHERE user_id = $1`, [userId]);
       }
 
-      await client.query("COMMIT");
-
       // ✅ retorna o USER atualizado (o front precisa disso)
-      const userRes = await pool.query(
+      const userRes = await client.query(
         `SELECT id, name, email, role, created_at FROM users WHERE id = $1`,
         [userId]
       );
 
-      const stacksRes = await pool.query(
+      const stacksRes = await client.query(
         `SELECT ds.code
          FROM user_developer_stacks uds
          JOIN developer_stacks ds ON ds.id = uds.stack_id
@@ -319,6 +376,28 @@ adminUsersRoutes.patch(
         [userId]
       );
 
+      // role ou senha mudou: derruba sessões abertas na hora
+      if (body.password || (body.role && body.role !== beforeRes.rows[0].role)) {
+        await revokeUserSessions(client, userId);
+      }
+
+      await recordAudit(client, {
+        actorUserId: req.auth!.userId,
+        action: "user.update",
+        entityType: "user",
+        entityId: userId,
+        before: { ...beforeRes.rows[0], stacks: beforeStacks },
+        after: {
+          name: userRes.rows[0].name,
+          email: userRes.rows[0].email,
+          role: userRes.rows[0].role,
+          stacks: stacksRes.rows.map((r) => r.code),
+          password_changed: Boolean(body.password),
+        },
+      });
+
+      await client.query("COMMIT");
+
       return res.json({
         id: userRes.rows[0].id,
         name: userRes.rows[0].name,
@@ -358,19 +437,44 @@ adminUsersRoutes.delete(
       return res.status(400).json({ error: "Você não pode remover seu próprio usuário" });
     }
 
-    const upd = await pool.query(
-      `UPDATE users
-       SET is_active = false,
-           deleted_at = now(),
-           deleted_by_user_id = $1,
-           updated_at = now()
-       WHERE id = $2 AND is_active = true
-       RETURNING id`,
-      [adminId, userId]
-    );
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
 
-    if (upd.rowCount === 0) return res.status(404).json({ error: "Usuário não encontrado" });
+      const upd = await client.query(
+        `UPDATE users
+         SET is_active = false,
+             deleted_at = now(),
+             deleted_by_user_id = $1,
+             updated_at = now()
+         WHERE id = $2 AND is_active = true
+         RETURNING name, email, role`,
+        [adminId, userId]
+      );
+
+      if (upd.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Usuário não encontrado" });
+      }
 
-    return res.json({ ok: true });
+      await revokeUserSessions(client, userId);
+
+      await recordAudit(client, {
+        actorUserId: adminId,
+        action: "user.delete",
+        entityType: "user",
+        entityId: userId,
+        before: { ...upd.rows[0], is_active: true },
+        after: { is_active: false },
+      });
+
+      await client.query("COMMIT");
+      return res.json({ ok: true });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
   }
 );
@@ -0,0 +1,330 @@
+import { Router } from "express";
+import { z } from "zod";
+import { pool } from "../db";
+import { authRequired } from "../middleware/auth";
+import { requireRole } from "../middleware/requireRole";
+import { recordAudit } from "../services/audit.service";
+import { failPendingDeliveries, generateWebhookSecret, WEBHOOK_EVENT_TYPES } from "../services/webhooks.service";
+
+export const adminWebhooksRoutes = Router();
+
+const UrlSchema = z.string().url().max(2_000).refine((u) => /^https?:\/\//i.test(u), "URL deve ser http(s)");
+const EventTypesSchema = z.array(z.enum(WEBHOOK_EVENT_TYPES)).min(1).transform((v) => [...new Set(v)]);
+
+// secret nunca volta na listagem; só na criação e na rotação
+const WEBHOOK_COLUMNS = `id, project_id, url, event_types, is_active, created_at, updated_at`;
+
+/**
+ * GET /api/admin/projects/:projectId/webhooks
+ * Inclui contadores do log (pendentes/falhas) e a última entrega.
+ */
+adminWebhooksRoutes.get(
+  "/admin/projects/:projectId/webhooks",
+  authRequired,
+  requireRole(["admin"]),
+  async (req, res) => {
+    const { projectId } = req.params;
+
+    const { rows } = await pool.query(
+      `SELECT w.id, w.project_id, w.url, w.event_types, w.is_active, w.created_at, w.updated_at,
+              (SELECT COUNT(*)::int FROM webhook_deliveries d
+                WHERE d.webhook_id = w.id AND d.status = 'pending') as pending_count,
+              (SELECT COUNT(*)::int FROM webhook_deliveries d
+                WHERE d.webhook_id = w.id AND d.status = 'failed') as failed_count,
+              (SELECT MAX(d.last_attempt_at) FROM webhook_deliveries d
+                WHERE d.webhook_id = w.id) as last_attempt_at
+       FROM webhooks w
+       WHERE w.project_id = $1
+       ORDER BY w.created_at ASC`,
+      [projectId]
+    );
+
+    return res.json({ items: rows, event_types: WEBHOOK_EVENT_TYPES });
+  }
+);
+
+/**
+ * POST /api/admin/projects/:projectId/webhooks
+ * body: { url, event_types[] }
+ * Retorna o secret (única vez) para o receptor validar X-Webhook-Signature.
+ */
+adminWebhooksRoutes.post(
+  "/admin/projects/:projectId/webhooks",
+  authRequired,
+  requireRole(["admin"]),
+  async (req, res) => {
+    const { projectId } = req.params;
+
+    const body = z.object({
+      url: UrlSchema,
+      event_types: EventTypesSchema,
+    }).parse(req.body);
+
+    const p = await pool.query(`SELECT id FROM projects WHERE id = $1`, [projectId]);
+    if (p.rows.length === 0) return res.status(404).json({ error: "Projeto não encontrado" });
+
+    const secret = generateWebhookSecret();
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const { rows } = await client.query(
+        `INSERT INTO webhooks (project_id, url, secret, event_types, created_by_user_id)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING ${WEBHOOK_COLUMNS}`,
+        [projectId, body.url, secret, body.event_types, req.auth!.userId]
+      );
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: req.auth!.userId,
+        action: "webhook.create",
+        entityType: "webhook",
+        entityId: rows[0].id,
+        after: rows[0],
+      });
+
+      await client.query("COMMIT");
+      return res.status(201).json({ ...rows[0], secret });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/**
+ * PATCH /api/admin/projects/:projectId/webhooks/:webhookId
+ * body: { url?, event_types?, is_active?, rotate_secret? }
+ * Desativar marca as entregas pendentes como failed.
+ */
+adminWebhooksRoutes.patch(
+  "/admin/projects/:projectId/webhooks/:webhookId",
+  authRequired,
+  requireRole(["admin"]),
+  async (req, res) => {
+    const { projectId, webhookId } = req.params;
+
+    const body = z.object({
+      url: UrlSchema.optional(),
+      event_types: EventTypesSchema.optional(),
+      is_active: z.boolean().optional(),
+      rotate_secret: z.boolean().optional(),
+    }).refine((v) => Object.keys(v).length > 0, "Nada para atualizar").parse(req.body);
+
+    const secret = body.rotate_secret ? generateWebhookSecret() : null;
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const beforeRes = await client.query(
+        `SELECT ${WEBHOOK_COLUMNS}
+         FROM webhooks
+         WHERE project_id = $1 AND id = $2
+         FOR UPDATE`,
+        [projectId, webhookId]
+      );
+      if (beforeRes.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Webhook não encontrado" });
+      }
+
+      const { rows } = await client.query(
+        `UPDATE webhooks
+         SET url = COALESCE($1, url),
+             event_types = COALESCE($2, event_types),
+             is_active = COALESCE($3, is_active),
+             secret = COALESCE($4, secret),
+             updated_at = now()
+         WHERE id = $5
+         RETURNING ${WEBHOOK_COLUMNS}`,
+        [body.url ?? null, body.event_types ?? null, body.is_active ?? null, secret, webhookId]
+      );
+
+      // desativado: o que estava na fila não é mais entregue
+      const failedPending = beforeRes.rows[0].is_active && !rows[0].is_active
+        ? await failPendingDeliveries(client, webhookId, "Webhook desativado")
+        : 0;
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: req.auth!.userId,
+        action: "webhook.update",
+        entityType: "webhook",
+        entityId: webhookId,
+        before: beforeRes.rows[0],
+        after: { ...rows[0], secret_rotated: Boolean(secret), failed_pending_deliveries: failedPending },
+      });
+
+      await client.query("COMMIT");
+      return res.json(secret ? { ...rows[0], secret } : rows[0]);
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/**
+ * DELETE /api/admin/projects/:projectId/webhooks/:webhookId
+ * Remove o webhook e o log de entregas dele.
+ */
+adminWebhooksRoutes.delete(
+  "/admin/projects/:projectId/webhooks/:webhookId",
+  authRequired,
+  requireRole(["admin"]),
+  async (req, res) => {
+    const { projectId, webhookId } = req.params;
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const del = await client.query(
+        `DELETE FROM webhooks
+         WHERE project_id = $1 AND id = $2
+         RETURNING ${WEBHOOK_COLUMNS}`,
+        [projectId, webhookId]
+      );
+      if (del.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Webhook não encontrado" });
+      }
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: req.auth!.userId,
+        action: "webhook.delete",
+        entityType: "webhook",
+        entityId: webhookId,
+        before: del.rows[0],
+      });
+
+      await client.query("COMMIT");
+      return res.json({ ok: true });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/**
+ * GET /api/admin/projects/:projectId/webhooks/:webhookId/deliveries
+ * query: { status?, limit?, cursor? } - cursor = created_at da última entrega (ISO)
+ */
+adminWebhooksRoutes.get(
+  "/admin/projects/:projectId/webhooks/:webhookId/deliveries",
+  authRequired,
+  requireRole(["admin"]),
+  async (req, res) => {
+    const { projectId, webhookId } = req.params;
+
+    const q = z.object({
+      status: z.enum(["pending", "success", "failed"]).optional(),
+      limit: z.coerce.number().int().min(1).max(200).default(50),
+      cursor: z.coerce.date().optional(),
+    }).parse(req.query);
+
+    const { rows } = await pool.query(
+      `SELECT id, event_type, status, attempts, next_attempt_at, last_attempt_at,
+              last_status_code, last_error, delivered_at, replay_of_id, created_at
+       FROM webhook_deliveries
+       WHERE project_id = $1 AND webhook_id = $2
+         AND ($3::text IS NULL OR status = $3)
+         AND ($4::timestamptz IS NULL OR created_at < $4)
+       ORDER BY created_at DESC
+       LIMIT $5`,
+      [projectId, webhookId, q.status ?? null, q.cursor ?? null, q.limit]
+    );
+
+    const next_cursor = rows.length === q.limit ? rows[rows.length - 1].created_at.toISOString() : null;
+    return res.json({ items: rows, next_cursor });
+  }
+);
+
+// GET delivery detail (payload + última resposta)
+adminWebhooksRoutes.get(
+  "/admin/projects/:projectId/webhooks/:webhookId/deliveries/:deliveryId",
+  authRequired,
+  requireRole(["admin"]),
+  async (req, res) => {
+    const { projectId, webhookId, deliveryId } = req.params;
+
+    const { rows } = await pool.query(
+      `SELECT id, event_type, payload, status, attempts, next_attempt_at, last_attempt_at,
+              last_status_code, last_error, last_response_body, delivered_at, replay_of_id, created_at
+       FROM webhook_deliveries
+       WHERE project_id = $1 AND webhook_id = $2 AND id = $3`,
+      [projectId, webhookId, deliveryId]
+    );
+    if (rows.length === 0) return res.status(404).json({ error: "Entrega não encontrada" });
+
+    return res.json(rows[0]);
+  }
+);
+
+/**
+ * POST /api/admin/projects/:projectId/webhooks/:webhookId/deliveries/:deliveryId/replay
+ * Cria uma nova entrega com o mesmo payload (a original fica no log). Webhook inativo: 409.
+ */
+adminWebhooksRoutes.post(
+  "/admin/projects/:projectId/webhooks/:webhookId/deliveries/:deliveryId/replay",
+  authRequired,
+  requireRole(["admin"]),
+  async (req, res) => {
+    const { projectId, webhookId, deliveryId } = req.params;
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const wRes = await client.query(
+        `SELECT is_active FROM webhooks WHERE project_id = $1 AND id = $2`,
+        [projectId, webhookId]
+      );
+      if (wRes.rows[0] && !wRes.rows[0].is_active) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "Webhook desativado" });
+      }
+
+      const { rows } = await client.query(
+        `INSERT INTO webhook_deliveries (webhook_id, project_id, event_type, payload, replay_of_id)
+         SELECT d.webhook_id, d.project_id, d.event_type, d.payload, d.id
+         FROM webhook_deliveries d
+         WHERE d.project_id = $1 AND d.webhook_id = $2 AND d.id = $3
+         RETURNING id, event_type, status, attempts, next_attempt_at, replay_of_id, created_at`,
+        [projectId, webhookId, deliveryId]
+      );
+      if (rows.length === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Entrega não encontrada" });
+      }
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: req.auth!.userId,
+        action: "webhook.replay",
+        entityType: "webhook",
+        entityId: webhookId,
+        after: { delivery_id: rows[0].id, replay_of_id: deliveryId },
+      });
+
+      await client.query("COMMIT");
+      return res.status(201).json(rows[0]);
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
@@ -1,9 +1,15 @@
 import { Router } from "express";
 import { z } from "zod";
-import bcrypt from "bcryptjs";
-import jwt, { Secret } from "jsonwebtoken";
-import { env } from "../env";
+import { pool } from "../db";
+import { authRequired } from "../middleware/auth";
 import { getUserByEmail } from "../sql";
+import { hashPassword, verifyPassword } from "../services/password.service";
+import { consumePasswordResetToken, createPasswordResetToken } from "../services/passwordReset.service";
+import { sendMail } from "../services/mail.service";
+import { recordAudit } from "../services/audit.service";
+import { env } from "../env";
+import { PasswordSchema } from "../schemas";
+import { issueSession, revokeRefreshToken, revokeUserSessions, rotateSession } from "../services/session.service";
 
 export const authRoutes = Router();
 
@@ -20,23 +26,14 @@ authRoutes.post("/auth/login", async (req, res) => {
 	return res.status(403).json({ error: "Usuário desativado" });
 	}
   
-  const ok = await bcrypt.compare(body.password, user.password_hash);
+  const ok = await verifyPassword(body.password, user.password_hash);
   if (!ok) return res.status(401).json({ error: "Credenciais inválidas" });
 
-  const expiresIn = (env.JWT_EXPIRES_IN || "7d").trim();
-
-	// fallback seguro se ainda vier inválido
-	const safeExpiresIn = expiresIn.length ? expiresIn : "7d";
-
-  const token = jwt.sign(
-    { sub: user.id, role: user.role },
-    env.JWT_SECRET as Secret,
-    { expiresIn: safeExpiresIn } as jwt.SignOptions
-  );
-
+  const session = await issueSession(pool, user);
 
 	return res.json({
-		token,
+		token: session.token,
+		refresh_token: session.refresh_token,
 		user: {
 			id: user.id,
 			name: user.name,
@@ -48,3 +45,142 @@ authRoutes.post("/auth/login", async (req, res) => {
 	});
 
 });
+
+/**
+ * POST /api/auth/refresh
+ * body: { refresh_token }
+ * Rotaciona: o refresh token usado é revogado e um novo par é devolvido.
+ */
+authRoutes.post("/auth/refresh", async (req, res) => {
+  const body = z.object({
+    refresh_token: z.string().min(1),
+  }).parse(req.body);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+    const session = await rotateSession(client, body.refresh_token);
+    // commit mesmo quando inválido: reuso de token revogado derruba as sessões
+    await client.query("COMMIT");
+
+    if (!session) return res.status(401).json({ error: "Sessão expirada" });
+
+    return res.json({ token: session.token, refresh_token: session.refresh_token });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * POST /api/auth/logout
+ * body: { refresh_token }
+ * Revoga só esta sessão. O access token atual expira sozinho (curto).
+ */
+authRoutes.post("/auth/logout", async (req, res) => {
+  const body = z.object({
+    refresh_token: z.string().min(1),
+  }).parse(req.body);
+
+  await revokeRefreshToken(pool, body.refresh_token);
+  return res.json({ ok: true });
+});
+
+/**
+ * POST /api/auth/logout-all
+ * Revoga todas as sessões do usuário logado (inclusive access tokens já emitidos).
+ */
+authRoutes.post("/auth/logout-all", authRequired, async (req, res) => {
+  await revokeUserSessions(pool, req.auth!.userId);
+  return res.json({ ok: true });
+});
+
+/**
+ * POST /api/auth/forgot-password
+ * body: { email }
+ * Sempre responde 200 (não revela se o e-mail existe).
+ */
+authRoutes.post("/auth/forgot-password", async (req, res) => {
+  const body = z.object({
+    email: z.string().email(),
+  }).parse(req.body);
+
+  const user = await getUserByEmail(body.email);
+
+  if (user && user.is_active) {
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const { link } = await createPasswordResetToken(client, user.id);
+
+      await sendMail(client, {
+        to: user.email,
+        subject: "Redefinição de senha",
+        text:
+          `Olá, ${user.name}.\n\n` +
+          `Para definir uma nova senha, acesse:\n${link}\n\n` +
+          `O link expira em ${env.PASSWORD_RESET_TTL_MINUTES} minutos e só pode ser usado uma vez.\n` +
+          `Se você não pediu isso, ignore este e-mail.`,
+      });
+
+      await client.query("COMMIT");
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+
+  return res.json({ ok: true });
+});
+
+/**
+ * POST /api/auth/reset-password
+ * body: { token, new_password }
+ * Token é de uso único; ao trocar a senha, todas as sessões caem.
+ */
+authRoutes.post("/auth/reset-password", async (req, res) => {
+  const body = z.object({
+    token: z.string().min(1),
+    new_password: PasswordSchema,
+  }).parse(req.body);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const userId = await consumePasswordResetToken(client, body.token);
+    if (!userId) {
+      await client.query("ROLLBACK");
+      return res.status(400).json({ error: "Link inválido ou expirado" });
+    }
+
+    const hash = await hashPassword(body.new_password);
+    await client.query(
+      `UPDATE users SET password_hash = $1, updated_at = now() WHERE id = $2`,
+      [hash, userId]
+    );
+
+    await revokeUserSessions(client, userId);
+
+    await recordAudit(client, {
+      actorUserId: userId,
+      action: "user.password_reset",
+      entityType: "user",
+      entityId: userId,
+      after: { password_changed: true },
+    });
+
+    await client.query("COMMIT");
+    return res.json({ ok: true });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+});
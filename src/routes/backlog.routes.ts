@@ -1,15 +1,54 @@
-import { Router } from "express";
+import { Request, Response, Router } from "express";
 import { z } from "zod";
 import { authRequired } from "../middleware/auth";
 import { requireProjectMembership } from "../middleware/requireMembership";
 import { requireRole } from "../middleware/requireRole";
 import { pool } from "../db";
 import { recalcProgress } from "../services/progress.service";
+import { recordAudit } from "../services/audit.service";
+import { publishEvent } from "../services/events.service";
+import { enqueueWebhooks } from "../services/webhooks.service";
+import { notifySuggestionAuthor } from "../services/notifications.service";
+import { backlogCursorFits, BacklogListQuerySchema, buildBacklogListSql, paginate } from "../services/lists.service";
+import {
+  EXPORT_BATCH_SIZE,
+  ExportColumn,
+  exportFilename,
+  ExportFormatSchema,
+  getProjectTaskStacks,
+  getTaskCounts,
+  TaskCounts,
+  taskStackColumns,
+  writeExport,
+} from "../services/exports.service";
+import { changeSuggestionStatus } from "../services/suggestionStatus.service";
+import {
+  allowedTransitions,
+  canTransition,
+  mirrorStageOnSuggestion,
+  recordStageTransition,
+} from "../services/backlogWorkflow.service";
 import { getUserStacks } from "../sql";
+import { rankBetween, topRank } from "../rank";
+import { StackCodeSchema } from "../schemas";
+import { getStackByCode } from "../services/stacks.service";
+import { BacklogStage } from "../types";
+import {
+  findDependencyCycle,
+  getAffectedBacklogItems,
+  getUnfinishedPrerequisites,
+  listDependencyIds,
+  syncAutoBlock,
+} from "../services/taskDependencies.service";
 
 export const backlogRoutes = Router();
 
-// GET backlog list (developer/manager/admin)
+/**
+ * GET backlog list (developer/manager/admin)
+ * query: { stage?, priority?, milestone_id?=uuid|none, sort?=created_at|priority|progress|score, order?, limit?, cursor? }
+ * - sem limit: array (formato antigo)
+ * - com limit: { items, next_cursor }
+ */
 backlogRoutes.get(
   "/projects/:projectId/backlog",
   authRequired,
@@ -18,16 +57,95 @@ backlogRoutes.get(
   async (req, res) => {
     const { projectId } = req.params;
 
-    const { rows } = await pool.query(
-      `SELECT id, project_id, origin_type, suggestion_id, title, summary,
-              stage, priority, progress_percent, created_at
-       FROM backlog_items
-       WHERE project_id = $1 AND is_active = true
-       ORDER BY created_at DESC`,
-      [projectId]
-    );
+    const q = BacklogListQuerySchema.parse(req.query);
+    if (!backlogCursorFits(q)) return res.status(400).json({ error: "Cursor inválido" });
+
+    const { rows } = await pool.query(buildBacklogListSql(projectId, q));
+    const { page, next_cursor } = paginate(rows, q.limit);
+    const items = page.map(({ sort_key, ...item }) => item);
 
-    return res.json(rows);
+    if (q.limit) return res.json({ items, next_cursor });
+    return res.json(items);
+  }
+);
+
+/**
+ * GET /api/projects/:projectId/backlog/export (developer/manager/admin)
+ * query: { format?=csv|md, + mesmos filtros/ordenação da lista (limit/cursor ignorados) }
+ * - CSV em streaming (lotes pelo keyset)
+ * - autor da sugestão de origem só para developer/admin
+ */
+backlogRoutes.get(
+  "/projects/:projectId/backlog/export",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  async (req, res) => {
+    const { projectId } = req.params;
+    const role = req.auth!.role;
+
+    const format = ExportFormatSchema.parse(req.query.format);
+    const q = BacklogListQuerySchema.parse(req.query);
+    const canSeeAuthor = role === "developer" || role === "admin";
+
+    const pRes = await pool.query(`SELECT name FROM projects WHERE id = $1`, [projectId]);
+    const mRes = await pool.query(`SELECT id, name FROM milestones WHERE project_id = $1`, [projectId]);
+    const milestones = new Map<string, string>(mRes.rows.map((m) => [m.id, m.name]));
+    const stacks = await getProjectTaskStacks(projectId);
+
+    type Row = {
+      id: string;
+      sort_key: string;
+      origin_type: string;
+      suggestion_id: string | null;
+      title: string;
+      stage: string;
+      priority: string;
+      progress_percent: number;
+      milestone_id: string | null;
+      score: number;
+      created_at: Date;
+    };
+
+    let counts: TaskCounts = new Map();
+    let authors = new Map<string, string>();
+    const columns: ExportColumn<Row>[] = [
+      { header: "id", value: (r) => r.id },
+      { header: "title", value: (r) => r.title },
+      { header: "stage", value: (r) => r.stage },
+      { header: "priority", value: (r) => r.priority },
+      { header: "progress_percent", value: (r) => r.progress_percent },
+      { header: "score", value: (r) => r.score },
+      { header: "milestone", value: (r) => (r.milestone_id ? milestones.get(r.milestone_id) : null) },
+      { header: "origin_type", value: (r) => r.origin_type },
+      ...taskStackColumns<Row>(stacks, format, () => counts, (r) => r.id),
+      ...(canSeeAuthor
+        ? [{ header: "suggestion_author_name", value: (r: Row) => (r.suggestion_id ? authors.get(r.suggestion_id) : null) }]
+        : []),
+      { header: "created_at", value: (r) => r.created_at },
+    ];
+
+    await writeExport<Row>(res, {
+      format,
+      filename: exportFilename("backlog", pRes.rows[0]?.name ?? ""),
+      title: `Backlog — ${pRes.rows[0]?.name ?? ""}`,
+      columns,
+      fetchBatch: async (cursor) =>
+        (await pool.query(buildBacklogListSql(projectId, { ...q, limit: EXPORT_BATCH_SIZE, cursor: cursor ?? undefined }))).rows,
+      beforeBatch: async (rows) => {
+        counts = await getTaskCounts(projectId, rows.map((r) => r.id));
+        if (!canSeeAuthor) return;
+
+        const aRes = await pool.query(
+          `SELECT s.id, u.name
+           FROM suggestions s
+           JOIN users u ON u.id = s.created_by_user_id
+           WHERE s.project_id = $1 AND s.id = ANY($2::uuid[])`,
+          [projectId, rows.flatMap((r) => (r.suggestion_id ? [r.suggestion_id] : []))]
+        );
+        authors = new Map(aRes.rows.map((a) => [a.id, a.name]));
+      },
+    });
   }
 );
 
@@ -42,7 +160,7 @@ backlogRoutes.get(
 
     const itemRes = await pool.query(
       `SELECT id, project_id, origin_type, suggestion_id, title, summary,
-              stage, priority, progress_percent, created_at
+              stage, priority, progress_percent, milestone_id, rank, created_at
        FROM backlog_items
        WHERE project_id = $1 AND id = $2`,
       [projectId, backlogItemId]
@@ -52,9 +170,17 @@ backlogRoutes.get(
 
     const tasksRes = await pool.query(
       `SELECT t.id, t.backlog_item_id, ds.code as stack, t.title, t.description,
-              t.is_done, t.order_index, t.created_at
+              t.is_done, t.order_index, t.effort_points, t.created_at,
+              t.assignee_user_id as assignee_id, a.name as assignee_name, t.assigned_at,
+              ARRAY(SELECT d.depends_on_task_id FROM backlog_task_dependencies d WHERE d.task_id = t.id) as depends_on,
+              EXISTS (
+                SELECT 1 FROM backlog_task_dependencies d
+                JOIN backlog_tasks p ON p.id = d.depends_on_task_id
+                WHERE d.task_id = t.id AND p.is_done = false
+              ) as is_waiting
        FROM backlog_tasks t
        JOIN developer_stacks ds ON ds.id = t.stack_id
+       LEFT JOIN users a ON a.id = t.assignee_user_id
        WHERE t.project_id = $1 AND t.backlog_item_id = $2
        ORDER BY t.order_index ASC, t.created_at ASC`,
       [projectId, backlogItemId]
@@ -80,14 +206,326 @@ backlogRoutes.post(
       priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
     }).parse(req.body);
 
-    const { rows } = await pool.query(
-      `INSERT INTO backlog_items (project_id, origin_type, title, summary, priority, created_by_user_id)
-       VALUES ($1, 'manual', $2, $3, $4, $5)
-       RETURNING id, project_id, origin_type, title, summary, stage, priority, progress_percent, created_at`,
-      [projectId, body.title, body.summary ?? null, body.priority ?? "medium", userId]
-    );
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const rank = await topRank(client, projectId);
+
+      const { rows } = await client.query(
+        `INSERT INTO backlog_items (project_id, origin_type, title, summary, priority, rank, created_by_user_id)
+         VALUES ($1, 'manual', $2, $3, $4, $5, $6)
+         RETURNING id, project_id, origin_type, title, summary, stage, priority, progress_percent, rank, created_at`,
+        [projectId, body.title, body.summary ?? null, body.priority ?? "medium", rank, userId]
+      );
+
+      await recordStageTransition(client, {
+        projectId,
+        backlogItemId: rows[0].id,
+        from: null,
+        to: rows[0].stage,
+        userId,
+      });
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "backlog_item.create",
+        entityType: "backlog_item",
+        entityId: rows[0].id,
+        after: rows[0],
+      });
+
+      await client.query("COMMIT");
+      return res.status(201).json(rows[0]);
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/**
+ * PATCH /api/projects/:projectId/backlog/:backlogItemId
+ * body: { title?, summary?, priority?, stage?, milestone_id? }
+ * - title/summary: developer/admin
+ * - priority, milestone_id: developer/manager/admin (milestone precisa estar aberto; null remove)
+ * - stage: segue STAGE_TRANSITIONS (por role); done espelha na sugestão
+ */
+backlogRoutes.patch(
+  "/projects/:projectId/backlog/:backlogItemId",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  async (req, res) => {
+    const { projectId, backlogItemId } = req.params;
+    const userId = req.auth!.userId;
+    const role = req.auth!.role;
+
+    const body = z.object({
+      title: z.string().min(1).max(200).optional(),
+      summary: z.string().max(10_000).nullable().optional(),
+      priority: z.enum(["low", "medium", "high", "urgent"]).optional(),
+      stage: z.enum(["todo", "doing", "review", "done", "blocked"]).optional(),
+      milestone_id: z.string().uuid().nullable().optional(),
+    }).refine((v) => Object.keys(v).length > 0, "Nada para atualizar").parse(req.body);
+
+    if (role === "manager" && (body.title !== undefined || body.summary !== undefined)) {
+      return res.status(403).json({ error: "Sem permissão para editar título/resumo" });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const itemRes = await client.query(
+        `SELECT id, project_id, origin_type, suggestion_id, title, summary,
+                stage, priority, progress_percent, milestone_id, is_active
+         FROM backlog_items
+         WHERE project_id = $1 AND id = $2
+         FOR UPDATE`,
+        [projectId, backlogItemId]
+      );
+      const item = itemRes.rows[0];
+      if (!item || !item.is_active) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Item não encontrado" });
+      }
+
+      const from = item.stage as BacklogStage;
+      const to = (body.stage ?? from) as BacklogStage;
+
+      if (!canTransition(from, to, role)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({
+          error: `Transição de estágio não permitida: ${from} → ${to}`,
+          allowed: allowedTransitions(from, role),
+        });
+      }
+
+      if (body.milestone_id) {
+        const mRes = await client.query(
+          `SELECT status FROM milestones WHERE project_id = $1 AND id = $2`,
+          [projectId, body.milestone_id]
+        );
+        if (!mRes.rows[0]) {
+          await client.query("ROLLBACK");
+          return res.status(404).json({ error: "Milestone não encontrado" });
+        }
+        if (mRes.rows[0].status !== "open") {
+          await client.query("ROLLBACK");
+          return res.status(409).json({ error: "Milestone está fechado" });
+        }
+      }
+
+      const { rows } = await client.query(
+        `UPDATE backlog_items
+         SET title = COALESCE($1, title),
+             summary = CASE WHEN $2::boolean THEN $3 ELSE summary END,
+             priority = COALESCE($4, priority),
+             auto_blocked_from_stage = CASE WHEN stage = $5 THEN auto_blocked_from_stage ELSE NULL END,
+             stage = $5,
+             milestone_id = CASE WHEN $8::boolean THEN $9::uuid ELSE milestone_id END,
+             updated_at = now()
+         WHERE project_id = $6 AND id = $7
+         RETURNING id, project_id, origin_type, suggestion_id, title, summary,
+                   stage, priority, progress_percent, milestone_id, rank, created_at`,
+        [
+          body.title ?? null,
+          body.summary !== undefined,
+          body.summary ?? null,
+          body.priority ?? null,
+          to,
+          projectId,
+          backlogItemId,
+          body.milestone_id !== undefined,
+          body.milestone_id ?? null
+        ]
+      );
+
+      await mirrorStageOnSuggestion(client, projectId, item.suggestion_id, from, to, userId);
+      await recordStageTransition(client, { projectId, backlogItemId, from, to, userId });
+
+      if (from !== to) {
+        await publishEvent(client, projectId, "backlog_item.stage_changed", {
+          backlog_item_id: backlogItemId,
+          from,
+          to,
+          rank: rows[0].rank,
+        });
+      }
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "backlog_item.update",
+        entityType: "backlog_item",
+        entityId: backlogItemId,
+        before: item,
+        after: rows[0],
+      });
+
+      await client.query("COMMIT");
+      return res.json(rows[0]);
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/**
+ * POST /api/projects/:projectId/backlog/:backlogItemId/move
+ * body: { stage?, prev_id?, next_id? }
+ * Move o item (kanban): muda o estágio e a posição na mesma transação.
+ * - prev_id: item que fica logo acima; next_id: item que fica logo abaixo (ambos no estágio de destino)
+ * - sem prev_id/next_id: vai para o fim do estágio
+ * - estágio segue STAGE_TRANSITIONS (por role); só reordenar é liberado para developer/manager/admin
+ */
+backlogRoutes.post(
+  "/projects/:projectId/backlog/:backlogItemId/move",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  async (req, res) => {
+    const { projectId, backlogItemId } = req.params;
+    const userId = req.auth!.userId;
+    const role = req.auth!.role;
+
+    const body = z.object({
+      stage: z.enum(["todo", "doing", "review", "done", "blocked"]).optional(),
+      prev_id: z.string().uuid().optional(),
+      next_id: z.string().uuid().optional(),
+    }).parse(req.body);
+
+    if (body.prev_id === backlogItemId || body.next_id === backlogItemId) {
+      return res.status(400).json({ error: "Item não pode ser posicionado em relação a si mesmo" });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const itemRes = await client.query(
+        `SELECT id, suggestion_id, stage, rank, is_active
+         FROM backlog_items
+         WHERE project_id = $1 AND id = $2
+         FOR UPDATE`,
+        [projectId, backlogItemId]
+      );
+      const item = itemRes.rows[0];
+      if (!item || !item.is_active) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Item não encontrado" });
+      }
+
+      const from = item.stage as BacklogStage;
+      const to = (body.stage ?? from) as BacklogStage;
+
+      if (!canTransition(from, to, role)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({
+          error: `Transição de estágio não permitida: ${from} → ${to}`,
+          allowed: allowedTransitions(from, role),
+        });
+      }
+
+      // vizinhos no estágio de destino (o próprio item fica de fora)
+      const neighbour = async (id: string) => {
+        const r = await client.query(
+          `SELECT rank FROM backlog_items
+           WHERE project_id = $1 AND id = $2 AND stage = $3 AND is_active = true`,
+          [projectId, id, to]
+        );
+        return r.rows[0]?.rank as string | undefined;
+      };
+      const adjacent = async (rank: string | null, dir: "above" | "below") => {
+        const r = await client.query(
+          `SELECT rank FROM backlog_items
+           WHERE project_id = $1 AND stage = $2 AND is_active = true AND id <> $3
+             AND ($4::text IS NULL OR rank ${dir === "above" ? "<" : ">"} $4)
+           ORDER BY rank ${dir === "above" ? "DESC" : "ASC"}
+           LIMIT 1`,
+          [projectId, to, backlogItemId, rank]
+        );
+        return (r.rows[0]?.rank as string | undefined) ?? null;
+      };
 
-    return res.status(201).json(rows[0]);
+      let prevRank: string | null = null;
+      let nextRank: string | null = null;
+
+      if (body.prev_id) {
+        const r = await neighbour(body.prev_id);
+        if (!r) {
+          await client.query("ROLLBACK");
+          return res.status(404).json({ error: "prev_id não encontrado no estágio de destino" });
+        }
+        prevRank = r;
+      }
+      if (body.next_id) {
+        const r = await neighbour(body.next_id);
+        if (!r) {
+          await client.query("ROLLBACK");
+          return res.status(404).json({ error: "next_id não encontrado no estágio de destino" });
+        }
+        nextRank = r;
+      }
+
+      if (body.prev_id && !body.next_id) nextRank = await adjacent(prevRank, "below");
+      else if (body.next_id && !body.prev_id) prevRank = await adjacent(nextRank, "above");
+      else if (!body.prev_id && !body.next_id) prevRank = await adjacent(null, "above");
+
+      if (prevRank !== null && nextRank !== null && prevRank >= nextRank) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "Posição inválida (prev_id deve vir antes de next_id)" });
+      }
+
+      const rank = rankBetween(prevRank, nextRank);
+
+      const { rows } = await client.query(
+        `UPDATE backlog_items
+         SET stage = $1,
+             rank = $2,
+             auto_blocked_from_stage = CASE WHEN stage = $1 THEN auto_blocked_from_stage ELSE NULL END,
+             updated_at = now()
+         WHERE project_id = $3 AND id = $4
+         RETURNING id, project_id, origin_type, suggestion_id, title, summary,
+                   stage, priority, progress_percent, milestone_id, rank, created_at`,
+        [to, rank, projectId, backlogItemId]
+      );
+
+      await mirrorStageOnSuggestion(client, projectId, item.suggestion_id, from, to, userId);
+      await recordStageTransition(client, { projectId, backlogItemId, from, to, userId });
+
+      await publishEvent(client, projectId, "backlog_item.stage_changed", {
+        backlog_item_id: backlogItemId,
+        from,
+        to,
+        rank,
+      });
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "backlog_item.move",
+        entityType: "backlog_item",
+        entityId: backlogItemId,
+        before: { stage: from, rank: item.rank },
+        after: { stage: to, rank },
+      });
+
+      await client.query("COMMIT");
+      return res.json(rows[0]);
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
   }
 );
 
@@ -103,10 +541,11 @@ backlogRoutes.post(
     const role = req.auth!.role;
 
     const body = z.object({
-      stack: z.enum(["frontend", "backend", "infra"]),
+      stack: StackCodeSchema,
       title: z.string().min(1).max(200),
       description: z.string().max(10_000).optional(),
       order_index: z.number().int().optional(),
+      effort_points: z.number().int().min(1).max(100).nullable().optional(),
     }).parse(req.body);
 
     if (role === "developer") {
@@ -116,10 +555,11 @@ backlogRoutes.post(
       }
     }
 
-    // map stack -> stack_id
-    const stackIdRes = await pool.query(`SELECT id FROM developer_stacks WHERE code = $1`, [body.stack]);
-    const stackId = stackIdRes.rows[0]?.id;
-    if (!stackId) return res.status(400).json({ error: "Stack inválida" });
+    // map stack -> stack_id (catálogo; stack inativa não recebe tasks novas)
+    const stack = await getStackByCode(body.stack);
+    if (!stack) return res.status(400).json({ error: "Stack inválida" });
+    if (!stack.is_active) return res.status(400).json({ error: `Stack ${body.stack} está inativa` });
+    const stackId = stack.id;
 
     // backlog existe?
     const bRes = await pool.query(
@@ -128,20 +568,61 @@ backlogRoutes.post(
     );
     if (bRes.rows.length === 0) return res.status(404).json({ error: "Backlog não encontrado" });
 
-    const { rows } = await pool.query(
-      `INSERT INTO backlog_tasks (project_id, backlog_item_id, stack_id, title, description, order_index, created_by_user_id)
-       VALUES ($1, $2, $3, $4, $5, $6, $7)
-       RETURNING id`,
-      [projectId, backlogItemId, stackId, body.title, body.description ?? null, body.order_index ?? 0, userId]
-    );
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const { rows } = await client.query(
+        `INSERT INTO backlog_tasks (project_id, backlog_item_id, stack_id, title, description, order_index,
+                                    effort_points, created_by_user_id)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+         RETURNING id, backlog_item_id, title, description, is_done, order_index, effort_points`,
+        [
+          projectId,
+          backlogItemId,
+          stackId,
+          body.title,
+          body.description ?? null,
+          body.order_index ?? 0,
+          body.effort_points ?? null,
+          userId
+        ]
+      );
 
-    const progress = await recalcProgress(projectId, backlogItemId);
+      const progress = await recalcProgress(projectId, backlogItemId, client);
 
-    return res.status(201).json({
-      task_id: rows[0].id,
-      backlog_progress_percent: progress.backlogProgress,
-      suggestion_progress_percent: progress.suggestionProgress ?? undefined
-    });
+      // task nova não espera ninguém: pode desfazer um bloqueio automático
+      await syncAutoBlock(client, projectId, [backlogItemId], userId);
+
+      await publishEvent(client, projectId, "task.created", {
+        backlog_item_id: backlogItemId,
+        task: { ...rows[0], stack: body.stack },
+        backlog_progress_percent: progress.backlogProgress,
+        suggestion_progress_percent: progress.suggestionProgress,
+      });
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "backlog_task.create",
+        entityType: "backlog_task",
+        entityId: rows[0].id,
+        after: { ...rows[0], stack: body.stack },
+      });
+
+      await client.query("COMMIT");
+
+      return res.status(201).json({
+        task_id: rows[0].id,
+        backlog_progress_percent: progress.backlogProgress,
+        suggestion_progress_percent: progress.suggestionProgress ?? undefined
+      });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
   }
 );
 
@@ -161,6 +642,7 @@ backlogRoutes.patch(
       description: z.string().max(10_000).optional(),
       is_done: z.boolean().optional(),
       order_index: z.number().int().optional(),
+      effort_points: z.number().int().min(1).max(100).nullable().optional(),
     }).refine((v) => Object.keys(v).length > 0, "Nada para atualizar").parse(req.body);
 
     // buscar stack da task
@@ -181,46 +663,109 @@ backlogRoutes.patch(
       }
     }
 
-    // atualizar
-    await pool.query(
-      `UPDATE backlog_tasks
-       SET title = COALESCE($1, title),
-           description = COALESCE($2, description),
-           is_done = COALESCE($3, is_done),
-           done_at = CASE
-                      WHEN COALESCE($3, is_done) = true AND is_done = false THEN now()
-                      WHEN COALESCE($3, is_done) = false THEN NULL
-                      ELSE done_at
-                    END,
-           order_index = COALESCE($4, order_index),
-           updated_at = now()
-       WHERE project_id = $5 AND backlog_item_id = $6 AND id = $7`,
-      [
-        body.title ?? null,
-        body.description ?? null,
-        typeof body.is_done === "boolean" ? body.is_done : null,
-        typeof body.order_index === "number" ? body.order_index : null,
-        projectId,
-        backlogItemId,
-        taskId
-      ]
-    );
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
 
-    const progress = await recalcProgress(projectId, backlogItemId);
+      const beforeRes = await client.query(
+        `SELECT t.id, ds.code as stack, t.title, t.description, t.is_done, t.order_index, t.effort_points
+         FROM backlog_tasks t
+         JOIN developer_stacks ds ON ds.id = t.stack_id
+         WHERE t.project_id = $1 AND t.backlog_item_id = $2 AND t.id = $3
+         FOR UPDATE OF t`,
+        [projectId, backlogItemId, taskId]
+      );
 
-    const updatedRes = await pool.query(
-      `SELECT t.id, ds.code as stack, t.title, t.description, t.is_done, t.order_index
-       FROM backlog_tasks t
-       JOIN developer_stacks ds ON ds.id = t.stack_id
-       WHERE t.project_id = $1 AND t.backlog_item_id = $2 AND t.id = $3`,
-      [projectId, backlogItemId, taskId]
-    );
+      // só conclui com os pré-requisitos concluídos
+      if (body.is_done === true && !beforeRes.rows[0].is_done) {
+        const blockedBy = await getUnfinishedPrerequisites(client, taskId);
+        if (blockedBy.length > 0) {
+          await client.query("ROLLBACK");
+          return res.status(409).json({ error: "Task tem dependências não concluídas", blocked_by: blockedBy });
+        }
+      }
 
-    return res.json({
-      task: updatedRes.rows[0],
-      backlog_progress_percent: progress.backlogProgress,
-      suggestion_progress_percent: progress.suggestionProgress ?? undefined
-    });
+      // atualizar
+      await client.query(
+        `UPDATE backlog_tasks
+         SET title = COALESCE($1, title),
+             description = COALESCE($2, description),
+             is_done = COALESCE($3, is_done),
+             done_at = CASE
+                        WHEN COALESCE($3, is_done) = true AND is_done = false THEN now()
+                        WHEN COALESCE($3, is_done) = false THEN NULL
+                        ELSE done_at
+                      END,
+             order_index = COALESCE($4, order_index),
+             effort_points = CASE WHEN $8::boolean THEN $9::int ELSE effort_points END,
+             updated_at = now()
+         WHERE project_id = $5 AND backlog_item_id = $6 AND id = $7`,
+        [
+          body.title ?? null,
+          body.description ?? null,
+          typeof body.is_done === "boolean" ? body.is_done : null,
+          typeof body.order_index === "number" ? body.order_index : null,
+          projectId,
+          backlogItemId,
+          taskId,
+          body.effort_points !== undefined,
+          body.effort_points ?? null
+        ]
+      );
+
+      const progress = await recalcProgress(projectId, backlogItemId, client);
+
+      if (typeof body.is_done === "boolean" && body.is_done !== beforeRes.rows[0].is_done) {
+        await syncAutoBlock(client, projectId, await getAffectedBacklogItems(client, projectId, [taskId]), userId);
+      }
+
+      const updatedRes = await client.query(
+        `SELECT t.id, ds.code as stack, t.title, t.description, t.is_done, t.order_index, t.effort_points
+         FROM backlog_tasks t
+         JOIN developer_stacks ds ON ds.id = t.stack_id
+         WHERE t.project_id = $1 AND t.backlog_item_id = $2 AND t.id = $3`,
+        [projectId, backlogItemId, taskId]
+      );
+
+      await publishEvent(client, projectId, "task.updated", {
+        backlog_item_id: backlogItemId,
+        task: updatedRes.rows[0],
+        backlog_progress_percent: progress.backlogProgress,
+        suggestion_progress_percent: progress.suggestionProgress,
+      });
+
+      if (!beforeRes.rows[0].is_done && updatedRes.rows[0].is_done) {
+        await enqueueWebhooks(client, projectId, "task.done", {
+          backlog_item_id: backlogItemId,
+          task: updatedRes.rows[0],
+          done_by_user_id: userId,
+          backlog_progress_percent: progress.backlogProgress,
+        });
+      }
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "backlog_task.update",
+        entityType: "backlog_task",
+        entityId: taskId,
+        before: beforeRes.rows[0],
+        after: updatedRes.rows[0],
+      });
+
+      await client.query("COMMIT");
+
+      return res.json({
+        task: updatedRes.rows[0],
+        backlog_progress_percent: progress.backlogProgress,
+        suggestion_progress_percent: progress.suggestionProgress ?? undefined
+      });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
   }
 );
 
@@ -230,6 +775,7 @@ backlogRoutes.patch(
  * Remove item do desenvolvimento (soft delete).
  * - manual: só desativa
  * - suggestion: desativa backlog + reabre sugestão e zera progresso
+ * - itens com tasks que dependiam das deste são ressincronizados (bloqueio automático)
  */
 backlogRoutes.delete(
   "/projects/:projectId/backlog/:backlogItemId",
@@ -246,7 +792,8 @@ backlogRoutes.delete(
 
       // 1) Carrega item (e trava)
       const itemRes = await client.query(
-        `SELECT id, project_id, origin_type, suggestion_id, is_active
+        `SELECT id, project_id, origin_type, suggestion_id, title, summary,
+                stage, priority, progress_percent, is_active
          FROM backlog_items
          WHERE id = $1 AND project_id = $2
          FOR UPDATE`,
@@ -276,20 +823,54 @@ backlogRoutes.delete(
         [userId, backlogItemId]
       );
 
-      // 3) Se veio de sugestão: reabrir sugestão + desvincular
+      // 3) Tasks de outros itens que esperavam por este deixam de esperar
+      const tasksRes = await client.query(
+        `SELECT id FROM backlog_tasks WHERE project_id = $1 AND backlog_item_id = $2`,
+        [projectId, backlogItemId]
+      );
+      const dependentItems = (
+        await getAffectedBacklogItems(client, projectId, tasksRes.rows.map((t) => t.id as string))
+      ).filter((id) => id !== backlogItemId);
+      await syncAutoBlock(client, projectId, dependentItems, userId);
+
+      // 4) Se veio de sugestão: reabrir sugestão + desvincular
       if (item.origin_type === "suggestion" && item.suggestion_id) {
+        await changeSuggestionStatus(client, {
+          projectId,
+          suggestionId: item.suggestion_id,
+          to: "open",
+          userId,
+          reason: "Item removido do desenvolvimento",
+        });
+
         await client.query(
           `UPDATE suggestions
-           SET status = 'open',
-               progress_percent = 0,
+           SET progress_percent = 0,
                backlog_item_id = NULL,
                locked_at = NULL,
                updated_at = now()
            WHERE id = $1 AND project_id = $2`,
           [item.suggestion_id, projectId]
         );
+
+        await notifySuggestionAuthor(client, {
+          projectId,
+          suggestionId: item.suggestion_id,
+          type: "suggestion.reopened",
+          actorUserId: userId,
+          data: { reason: "Item removido do desenvolvimento" },
+        });
       }
 
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "backlog_item.delete",
+        entityType: "backlog_item",
+        entityId: backlogItemId,
+        before: item,
+      });
+
       await client.query("COMMIT");
       return res.json({ ok: true });
     } catch (e: any) {
@@ -303,6 +884,92 @@ backlogRoutes.delete(
 );
 
 
+/**
+ * PUT /api/projects/:projectId/backlog/:backlogItemId/tasks/order
+ * body: { task_ids: uuid[] } - todas as tasks do item, na ordem desejada
+ * Reescreve order_index (0..n-1) de uma vez.
+ * Developer precisa ter todas as stacks das tasks do item.
+ */
+backlogRoutes.put(
+  "/projects/:projectId/backlog/:backlogItemId/tasks/order",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "admin"]),
+  async (req, res) => {
+    const { projectId, backlogItemId } = req.params;
+    const userId = req.auth!.userId;
+    const role = req.auth!.role;
+
+    const body = z.object({
+      task_ids: z.array(z.string().uuid()).min(1).max(500),
+    }).parse(req.body);
+
+    if (new Set(body.task_ids).size !== body.task_ids.length) {
+      return res.status(400).json({ error: "task_ids com itens repetidos" });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const tRes = await client.query(
+        `SELECT t.id, t.order_index, ds.code as stack
+         FROM backlog_tasks t
+         JOIN backlog_items b ON b.id = t.backlog_item_id
+         JOIN developer_stacks ds ON ds.id = t.stack_id
+         WHERE t.project_id = $1 AND t.backlog_item_id = $2 AND b.is_active = true
+         ORDER BY t.order_index ASC, t.created_at ASC
+         FOR UPDATE OF t`,
+        [projectId, backlogItemId]
+      );
+      const current = tRes.rows.map((t) => t.id as string);
+
+      if (
+        current.length !== body.task_ids.length ||
+        !body.task_ids.every((id) => current.includes(id))
+      ) {
+        await client.query("ROLLBACK");
+        return res.status(422).json({ error: "task_ids deve conter exatamente as tasks do item" });
+      }
+
+      if (role === "developer") {
+        const stacks = await getUserStacks(userId);
+        const missing = [...new Set(tRes.rows.map((t) => t.stack as string))].filter((code) => !stacks.includes(code));
+        if (missing.length > 0) {
+          await client.query("ROLLBACK");
+          return res.status(403).json({ error: `Sem permissão para stack ${missing.join(", ")}` });
+        }
+      }
+
+      await client.query(
+        `UPDATE backlog_tasks t
+         SET order_index = o.idx - 1, updated_at = now()
+         FROM unnest($1::uuid[]) WITH ORDINALITY AS o(id, idx)
+         WHERE t.id = o.id AND t.project_id = $2 AND t.backlog_item_id = $3`,
+        [body.task_ids, projectId, backlogItemId]
+      );
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "backlog_item.reorder_tasks",
+        entityType: "backlog_item",
+        entityId: backlogItemId,
+        before: { task_ids: current },
+        after: { task_ids: body.task_ids },
+      });
+
+      await client.query("COMMIT");
+      return res.json({ ok: true, task_ids: body.task_ids });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
 // DELETE task (developer/admin) - respeita stack
 backlogRoutes.delete(
   "/projects/:projectId/backlog/:backlogItemId/tasks/:taskId",
@@ -315,7 +982,7 @@ backlogRoutes.delete(
     const role = req.auth!.role;
 
     const tRes = await pool.query(
-      `SELECT ds.code as stack
+      `SELECT t.id, ds.code as stack, t.title, t.description, t.is_done, t.order_index
        FROM backlog_tasks t
        JOIN developer_stacks ds ON ds.id = t.stack_id
        WHERE t.project_id = $1 AND t.backlog_item_id = $2 AND t.id = $3`,
@@ -331,18 +998,397 @@ backlogRoutes.delete(
       }
     }
 
-    await pool.query(
-      `DELETE FROM backlog_tasks
-       WHERE project_id = $1 AND backlog_item_id = $2 AND id = $3`,
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      // itens que dependiam da task (as dependências somem junto, em cascata)
+      const affected = await getAffectedBacklogItems(client, projectId, [taskId]);
+
+      await client.query(
+        `DELETE FROM backlog_tasks
+         WHERE project_id = $1 AND backlog_item_id = $2 AND id = $3`,
+        [projectId, backlogItemId, taskId]
+      );
+
+      const progress = await recalcProgress(projectId, backlogItemId, client);
+      await syncAutoBlock(client, projectId, affected, userId);
+
+      await publishEvent(client, projectId, "task.deleted", {
+        backlog_item_id: backlogItemId,
+        task_id: taskId,
+        backlog_progress_percent: progress.backlogProgress,
+        suggestion_progress_percent: progress.suggestionProgress,
+      });
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "backlog_task.delete",
+        entityType: "backlog_task",
+        entityId: taskId,
+        before: task,
+      });
+
+      await client.query("COMMIT");
+
+      return res.json({
+        ok: true,
+        backlog_progress_percent: progress.backlogProgress,
+        suggestion_progress_percent: progress.suggestionProgress ?? undefined
+      });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/**
+ * Define/limpa o responsável da task.
+ * - quem altera precisa da stack da task (developer) ou ser admin
+ * - responsável precisa ser membro ativo do projeto com a stack da task
+ * - claim não toma task de outra pessoa (409); reatribuir é pelo PUT .../assignee
+ * A task fica travada durante as checagens (claims simultâneos não se sobrescrevem).
+ */
+async function setTaskAssignee(req: Request, res: Response, assigneeId: string | null, claim = false) {
+  const { projectId, backlogItemId, taskId } = req.params;
+  const userId = req.auth!.userId;
+  const role = req.auth!.role;
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const tRes = await client.query(
+      `SELECT t.stack_id, ds.code as stack, t.assignee_user_id
+       FROM backlog_tasks t
+       JOIN developer_stacks ds ON ds.id = t.stack_id
+       WHERE t.project_id = $1 AND t.backlog_item_id = $2 AND t.id = $3
+       FOR UPDATE OF t`,
       [projectId, backlogItemId, taskId]
     );
+    const task = tRes.rows[0];
+    if (!task) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Task não encontrada" });
+    }
+
+    if (claim && task.assignee_user_id && task.assignee_user_id !== userId) {
+      await client.query("ROLLBACK");
+      return res.status(409).json({ error: "Task já tem responsável", assignee_id: task.assignee_user_id });
+    }
+
+    // o próprio responsável pode se remover; demais casos seguem a regra de stack
+    const isSelfUnassign = assigneeId === null && task.assignee_user_id === userId;
+    if (role === "developer" && !isSelfUnassign) {
+      const stacks = await getUserStacks(userId);
+      if (!stacks.includes(task.stack)) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: `Sem permissão para stack ${task.stack}` });
+      }
+    }
+
+    if (assigneeId) {
+      const okRes = await client.query(
+        `SELECT 1
+         FROM users u
+         JOIN project_members pm ON pm.user_id = u.id AND pm.project_id = $1
+         JOIN user_developer_stacks uds ON uds.user_id = u.id AND uds.stack_id = $3
+         WHERE u.id = $2 AND u.is_active = true`,
+        [projectId, assigneeId, task.stack_id]
+      );
+      if (okRes.rows.length === 0) {
+        await client.query("ROLLBACK");
+        return res.status(422).json({ error: `Usuário não é membro do projeto com a stack ${task.stack}` });
+      }
+    }
+
+    const { rows } = await client.query(
+      `UPDATE backlog_tasks
+       SET assignee_user_id = $1,
+           assigned_at = CASE WHEN $1::uuid IS NULL THEN NULL ELSE now() END,
+           updated_at = now()
+       WHERE project_id = $2 AND backlog_item_id = $3 AND id = $4
+       RETURNING id, assignee_user_id as assignee_id, assigned_at`,
+      [assigneeId, projectId, backlogItemId, taskId]
+    );
 
-    const progress = await recalcProgress(projectId, backlogItemId);
+    await publishEvent(client, projectId, "task.updated", {
+      backlog_item_id: backlogItemId,
+      task: rows[0],
+    });
+
+    await recordAudit(client, {
+      projectId,
+      actorUserId: userId,
+      action: assigneeId ? "backlog_task.assign" : "backlog_task.unassign",
+      entityType: "backlog_task",
+      entityId: taskId,
+      before: { assignee_user_id: task.assignee_user_id },
+      after: { assignee_user_id: assigneeId },
+    });
+
+    await client.query("COMMIT");
+    return res.json(rows[0]);
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+// ASSIGN task (developer/admin) - body: { user_id }
+backlogRoutes.put(
+  "/projects/:projectId/backlog/:backlogItemId/tasks/:taskId/assignee",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "admin"]),
+  async (req, res) => {
+    const body = z.object({
+      user_id: z.string().uuid(),
+    }).parse(req.body);
+
+    return setTaskAssignee(req, res, body.user_id);
+  }
+);
+
+// CLAIM task (developer/admin) - assume a task para si (409 se já for de outra pessoa)
+backlogRoutes.post(
+  "/projects/:projectId/backlog/:backlogItemId/tasks/:taskId/claim",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "admin"]),
+  async (req, res) => setTaskAssignee(req, res, req.auth!.userId, true)
+);
+
+// UNASSIGN task (developer/admin)
+backlogRoutes.delete(
+  "/projects/:projectId/backlog/:backlogItemId/tasks/:taskId/assignee",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "admin"]),
+  async (req, res) => setTaskAssignee(req, res, null)
+);
+
+/**
+ * Carrega a task (com stack) e aplica a regra de stack do developer.
+ * Responde 404/403 e retorna null quando não pode seguir.
+ */
+async function loadTaskForDependencyChange(req: Request, res: Response) {
+  const { projectId, backlogItemId, taskId } = req.params;
+
+  const tRes = await pool.query(
+    `SELECT t.id, ds.code as stack
+     FROM backlog_tasks t
+     JOIN developer_stacks ds ON ds.id = t.stack_id
+     WHERE t.project_id = $1 AND t.backlog_item_id = $2 AND t.id = $3`,
+    [projectId, backlogItemId, taskId]
+  );
+  const task = tRes.rows[0];
+  if (!task) {
+    res.status(404).json({ error: "Task não encontrada" });
+    return null;
+  }
+
+  if (req.auth!.role === "developer") {
+    const stacks = await getUserStacks(req.auth!.userId);
+    if (!stacks.includes(task.stack)) {
+      res.status(403).json({ error: `Sem permissão para stack ${task.stack}` });
+      return null;
+    }
+  }
+  return task;
+}
+
+// GET dependências da task (developer/manager/admin): pré-requisitos e tasks que esperam por ela
+backlogRoutes.get(
+  "/projects/:projectId/backlog/:backlogItemId/tasks/:taskId/dependencies",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  async (req, res) => {
+    const { projectId, backlogItemId, taskId } = req.params;
+
+    const tRes = await pool.query(
+      `SELECT id FROM backlog_tasks WHERE project_id = $1 AND backlog_item_id = $2 AND id = $3`,
+      [projectId, backlogItemId, taskId]
+    );
+    if (!tRes.rows[0]) return res.status(404).json({ error: "Task não encontrada" });
+
+    // mesma consulta nos dois sentidos: pré-requisitos (depends_on) e quem espera pela task (dependents)
+    const linked = (side: "task_id" | "depends_on_task_id", other: "task_id" | "depends_on_task_id") =>
+      pool.query(
+        `SELECT t.id, t.backlog_item_id, b.title as backlog_item_title, b.is_active as backlog_item_active,
+                ds.code as stack, t.title, t.is_done, d.created_at as linked_at
+         FROM backlog_task_dependencies d
+         JOIN backlog_tasks t ON t.id = d.${other}
+         JOIN backlog_items b ON b.id = t.backlog_item_id
+         JOIN developer_stacks ds ON ds.id = t.stack_id
+         WHERE d.${side} = $1
+         ORDER BY d.created_at`,
+        [taskId]
+      );
+
+    const [dependsOn, dependents] = await Promise.all([
+      linked("task_id", "depends_on_task_id"),
+      linked("depends_on_task_id", "task_id"),
+    ]);
 
     return res.json({
-      ok: true,
-      backlog_progress_percent: progress.backlogProgress,
-      suggestion_progress_percent: progress.suggestionProgress ?? undefined
+      depends_on: dependsOn.rows,
+      dependents: dependents.rows,
+      is_waiting: dependsOn.rows.some((r) => !r.is_done && r.backlog_item_active),
     });
   }
 );
+
+/**
+ * POST /api/projects/:projectId/backlog/:backlogItemId/tasks/:taskId/dependencies (developer/admin)
+ * body: { depends_on_task_id }
+ * - pré-requisito precisa ser task do mesmo projeto (qualquer item)
+ * - ciclo => 409 com o caminho
+ * - pode bloquear o item automaticamente (todas as tasks pendentes esperando)
+ */
+backlogRoutes.post(
+  "/projects/:projectId/backlog/:backlogItemId/tasks/:taskId/dependencies",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "admin"]),
+  async (req, res) => {
+    const { projectId, backlogItemId, taskId } = req.params;
+    const userId = req.auth!.userId;
+
+    const body = z.object({
+      depends_on_task_id: z.string().uuid(),
+    }).parse(req.body);
+
+    if (body.depends_on_task_id === taskId) {
+      return res.status(422).json({ error: "Task não pode depender de si mesma" });
+    }
+
+    const task = await loadTaskForDependencyChange(req, res);
+    if (!task) return;
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      // serializa mudanças de dependência do projeto (a checagem de ciclo lê o grafo inteiro)
+      await client.query(`SELECT pg_advisory_xact_lock(hashtext('task_dependencies:' || $1))`, [projectId]);
+
+      const pRes = await client.query(
+        `SELECT id FROM backlog_tasks WHERE project_id = $1 AND id = $2`,
+        [projectId, body.depends_on_task_id]
+      );
+      if (!pRes.rows[0]) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Task de pré-requisito não encontrada no projeto" });
+      }
+
+      const cycle = await findDependencyCycle(client, taskId, body.depends_on_task_id);
+      if (cycle) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "Dependência criaria um ciclo", cycle });
+      }
+
+      const ins = await client.query(
+        `INSERT INTO backlog_task_dependencies (project_id, task_id, depends_on_task_id, created_by_user_id)
+         VALUES ($1, $2, $3, $4)
+         ON CONFLICT DO NOTHING`,
+        [projectId, taskId, body.depends_on_task_id, userId]
+      );
+      if (ins.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "Dependência já existe" });
+      }
+
+      await syncAutoBlock(client, projectId, [backlogItemId], userId);
+
+      const dependsOn = await listDependencyIds(client, taskId);
+
+      await publishEvent(client, projectId, "task.updated", {
+        backlog_item_id: backlogItemId,
+        task: { id: taskId, depends_on: dependsOn },
+      });
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "backlog_task.add_dependency",
+        entityType: "backlog_task",
+        entityId: taskId,
+        after: { depends_on_task_id: body.depends_on_task_id },
+      });
+
+      const waitingOn = await getUnfinishedPrerequisites(client, taskId);
+
+      await client.query("COMMIT");
+      return res.status(201).json({ task_id: taskId, depends_on: dependsOn, is_waiting: waitingOn.length > 0 });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+// DELETE dependência (developer/admin) - pode desfazer bloqueio automático
+backlogRoutes.delete(
+  "/projects/:projectId/backlog/:backlogItemId/tasks/:taskId/dependencies/:dependsOnTaskId",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "admin"]),
+  async (req, res) => {
+    const { projectId, backlogItemId, taskId, dependsOnTaskId } = req.params;
+    const userId = req.auth!.userId;
+
+    const task = await loadTaskForDependencyChange(req, res);
+    if (!task) return;
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const del = await client.query(
+        `DELETE FROM backlog_task_dependencies
+         WHERE project_id = $1 AND task_id = $2 AND depends_on_task_id = $3`,
+        [projectId, taskId, dependsOnTaskId]
+      );
+      if (del.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Dependência não encontrada" });
+      }
+
+      await syncAutoBlock(client, projectId, [backlogItemId], userId);
+
+      const dependsOn = await listDependencyIds(client, taskId);
+
+      await publishEvent(client, projectId, "task.updated", {
+        backlog_item_id: backlogItemId,
+        task: { id: taskId, depends_on: dependsOn },
+      });
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "backlog_task.remove_dependency",
+        entityType: "backlog_task",
+        entityId: taskId,
+        before: { depends_on_task_id: dependsOnTaskId },
+      });
+
+      await client.query("COMMIT");
+      return res.json({ ok: true, depends_on: dependsOn });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
@@ -0,0 +1,297 @@
+import { Router } from "express";
+import { z } from "zod";
+import { authRequired } from "../middleware/auth";
+import { requireProjectMembership } from "../middleware/requireMembership";
+import { requireRole } from "../middleware/requireRole";
+import { pool } from "../db";
+import { recordAudit } from "../services/audit.service";
+import { Role } from "../types";
+
+export const commentsRoutes = Router();
+
+/**
+ * Comentários podem ficar em sugestões ou em backlog items.
+ * Cada alvo define a rota, a coluna de vínculo e quem pode enxergá-lo.
+ */
+type CommentTarget = {
+  basePath: string;
+  param: string;
+  column: "suggestion_id" | "backlog_item_id";
+  roles?: Role[];
+  existsSql: string;
+  notFound: string;
+};
+
+const targets: CommentTarget[] = [
+  {
+    basePath: "/projects/:projectId/suggestions/:suggestionId/comments",
+    param: "suggestionId",
+    column: "suggestion_id",
+    existsSql: `SELECT 1 FROM suggestions WHERE project_id = $1 AND id = $2`,
+    notFound: "Sugestão não encontrada",
+  },
+  {
+    basePath: "/projects/:projectId/backlog/:backlogItemId/comments",
+    param: "backlogItemId",
+    column: "backlog_item_id",
+    // mesmo acesso do backlog
+    roles: ["developer", "manager", "admin"],
+    existsSql: `SELECT 1 FROM backlog_items WHERE project_id = $1 AND id = $2 AND is_active = true`,
+    notFound: "Item não encontrado",
+  },
+];
+
+type CommentRow = {
+  id: string;
+  parent_id: string | null;
+  body: string;
+  created_at: string;
+  edited_at: string | null;
+  is_active: boolean;
+  deleted_at: string | null;
+  deleted_by_user_id: string | null;
+  author_id: string;
+  author_name: string;
+};
+
+type CommentNode = ReturnType<typeof toComment> & { replies: CommentNode[] };
+
+function toComment(r: CommentRow, userId: string, canSeeAuthor: boolean) {
+  const removed = !r.is_active;
+  return {
+    id: r.id,
+    parent_id: r.parent_id,
+    body: removed ? null : r.body,
+    created_at: r.created_at,
+    edited_at: r.edited_at,
+    is_deleted: removed,
+    removed_by: removed ? (r.deleted_by_user_id === r.author_id ? "author" : "moderator") : undefined,
+    is_mine: r.author_id === userId,
+    author_id: canSeeAuthor ? r.author_id : undefined,
+    author_name: canSeeAuthor ? r.author_name : undefined,
+  };
+}
+
+for (const target of targets) {
+  const guards = [
+    authRequired,
+    requireProjectMembership,
+    ...(target.roles ? [requireRole(target.roles)] : []),
+  ];
+
+  async function targetExists(projectId: string, targetId: string) {
+    const { rows } = await pool.query(target.existsSql, [projectId, targetId]);
+    return rows.length > 0;
+  }
+
+  // GET comments (árvore: replies aninhadas)
+  commentsRoutes.get(target.basePath, ...guards, async (req, res) => {
+    const { projectId } = req.params;
+    const targetId = req.params[target.param];
+    const userId = req.auth!.userId;
+    const role = req.auth!.role;
+
+    if (!(await targetExists(projectId, targetId))) {
+      return res.status(404).json({ error: target.notFound });
+    }
+
+    const { rows } = await pool.query(
+      `SELECT c.id, c.parent_id, c.body, c.created_at, c.edited_at,
+              c.is_active, c.deleted_at, c.deleted_by_user_id,
+              u.id as author_id, u.name as author_name
+       FROM comments c
+       JOIN users u ON u.id = c.created_by_user_id
+       WHERE c.project_id = $1 AND c.${target.column} = $2
+       ORDER BY c.created_at ASC`,
+      [projectId, targetId]
+    );
+
+    const canSeeAuthor = role === "developer" || role === "admin";
+
+    const byId = new Map<string, CommentNode>();
+    const roots: CommentNode[] = [];
+    for (const r of rows as CommentRow[]) {
+      byId.set(r.id, { ...toComment(r, userId, canSeeAuthor), replies: [] });
+    }
+    for (const node of byId.values()) {
+      const parent = node.parent_id ? byId.get(node.parent_id) : undefined;
+      if (parent) parent.replies.push(node);
+      else roots.push(node);
+    }
+
+    return res.json({ items: roots, total: rows.length });
+  });
+
+  // CREATE comment / reply (qualquer membro com acesso ao alvo)
+  commentsRoutes.post(target.basePath, ...guards, async (req, res) => {
+    const { projectId } = req.params;
+    const targetId = req.params[target.param];
+    const userId = req.auth!.userId;
+    const role = req.auth!.role;
+
+    const body = z.object({
+      body: z.string().trim().min(1).max(5_000),
+      parent_id: z.string().uuid().optional(),
+    }).parse(req.body);
+
+    if (!(await targetExists(projectId, targetId))) {
+      return res.status(404).json({ error: target.notFound });
+    }
+
+    if (body.parent_id) {
+      const pRes = await pool.query(
+        `SELECT is_active
+         FROM comments
+         WHERE project_id = $1 AND ${target.column} = $2 AND id = $3`,
+        [projectId, targetId, body.parent_id]
+      );
+      const parent = pRes.rows[0];
+      if (!parent) return res.status(404).json({ error: "Comentário pai não encontrado" });
+      if (!parent.is_active) return res.status(409).json({ error: "Comentário pai foi removido" });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const { rows } = await client.query(
+        `INSERT INTO comments (project_id, ${target.column}, parent_id, created_by_user_id, body)
+         VALUES ($1, $2, $3, $4, $5)
+         RETURNING id, parent_id, body, created_at, edited_at, is_active, deleted_at, deleted_by_user_id,
+                   created_by_user_id as author_id,
+                   (SELECT name FROM users WHERE id = $4) as author_name`,
+        [projectId, targetId, body.parent_id ?? null, userId, body.body]
+      );
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "comment.create",
+        entityType: "comment",
+        entityId: rows[0].id,
+        after: { [target.column]: targetId, parent_id: rows[0].parent_id, body: rows[0].body },
+      });
+
+      await client.query("COMMIT");
+
+      const canSeeAuthor = role === "developer" || role === "admin";
+      return res.status(201).json({ ...toComment(rows[0], userId, canSeeAuthor), replies: [] });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  });
+
+  // UPDATE comment (somente autor)
+  commentsRoutes.patch(`${target.basePath}/:commentId`, ...guards, async (req, res) => {
+    const { projectId, commentId } = req.params;
+    const targetId = req.params[target.param];
+    const userId = req.auth!.userId;
+    const role = req.auth!.role;
+
+    const body = z.object({
+      body: z.string().trim().min(1).max(5_000),
+    }).parse(req.body);
+
+    const check = await pool.query(
+      `SELECT created_by_user_id, is_active, body
+       FROM comments
+       WHERE project_id = $1 AND ${target.column} = $2 AND id = $3`,
+      [projectId, targetId, commentId]
+    );
+    const row = check.rows[0];
+    if (!row) return res.status(404).json({ error: "Comentário não encontrado" });
+    if (row.created_by_user_id !== userId) return res.status(403).json({ error: "Sem permissão" });
+    if (!row.is_active) return res.status(409).json({ error: "Comentário foi removido" });
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const { rows } = await client.query(
+        `UPDATE comments c
+         SET body = $1, edited_at = now(), updated_at = now()
+         FROM users u
+         WHERE u.id = c.created_by_user_id AND c.id = $2
+         RETURNING c.id, c.parent_id, c.body, c.created_at, c.edited_at, c.is_active,
+                   c.deleted_at, c.deleted_by_user_id, u.id as author_id, u.name as author_name`,
+        [body.body, commentId]
+      );
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "comment.update",
+        entityType: "comment",
+        entityId: commentId,
+        before: { [target.column]: targetId, body: row.body },
+        after: { [target.column]: targetId, body: rows[0].body },
+      });
+
+      await client.query("COMMIT");
+
+      const canSeeAuthor = role === "developer" || role === "admin";
+      return res.json(toComment(rows[0], userId, canSeeAuthor));
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  });
+
+  // DELETE comment (soft) - autor ou admin (moderação)
+  commentsRoutes.delete(`${target.basePath}/:commentId`, ...guards, async (req, res) => {
+    const { projectId, commentId } = req.params;
+    const targetId = req.params[target.param];
+    const userId = req.auth!.userId;
+    const role = req.auth!.role;
+
+    const check = await pool.query(
+      `SELECT created_by_user_id, is_active, body
+       FROM comments
+       WHERE project_id = $1 AND ${target.column} = $2 AND id = $3`,
+      [projectId, targetId, commentId]
+    );
+    const row = check.rows[0];
+    if (!row) return res.status(404).json({ error: "Comentário não encontrado" });
+    if (row.created_by_user_id !== userId && role !== "admin") {
+      return res.status(403).json({ error: "Sem permissão" });
+    }
+    if (!row.is_active) return res.status(409).json({ error: "Comentário já foi removido" });
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      await client.query(
+        `UPDATE comments
+         SET is_active = false,
+             deleted_at = now(),
+             deleted_by_user_id = $1,
+             updated_at = now()
+         WHERE id = $2`,
+        [userId, commentId]
+      );
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: row.created_by_user_id === userId ? "comment.delete" : "comment.moderate",
+        entityType: "comment",
+        entityId: commentId,
+        before: { [target.column]: targetId, body: row.body },
+      });
+
+      await client.query("COMMIT");
+      return res.json({ ok: true });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  });
+}
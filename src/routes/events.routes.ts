@@ -0,0 +1,131 @@
+import { NextFunction, Request, Response, Router } from "express";
+import { z } from "zod";
+import { authRequired } from "../middleware/auth";
+import { requireProjectMembership } from "../middleware/requireMembership";
+import { canSeeEvent, listEventsSince, ProjectEvent, REPLAY_PAGE_SIZE, subscribe } from "../services/events.service";
+import { effectiveRole, getProjectMembership, getUserAuthState } from "../sql";
+
+export const eventsRoutes = Router();
+
+const HEARTBEAT_MS = 25_000;
+
+// EventSource do browser não manda headers: aceita ?access_token= só nesta rota
+function tokenFromQuery(req: Request, _res: Response, next: NextFunction) {
+  if (!req.headers.authorization && typeof req.query.access_token === "string") {
+    req.headers.authorization = `Bearer ${req.query.access_token}`;
+  }
+  next();
+}
+
+/**
+ * Revalida sessão e membership de uma conexão aberta (mesmas regras de authRequired +
+ * requireProjectMembership). Retorna a role efetiva atual ou null se o acesso acabou.
+ */
+async function currentStreamRole(userId: string, tokenVersion: number, projectId: string) {
+  const state = await getUserAuthState(userId);
+  if (!state || !state.is_active || state.token_version !== tokenVersion) return null;
+
+  const membership = await getProjectMembership(userId, projectId);
+  if (!membership) return null;
+
+  return effectiveRole(state.role, membership.role);
+}
+
+/**
+ * GET /api/projects/:projectId/events (text/event-stream)
+ * Retomada: header Last-Event-ID (ou ?last_event_id=) reenvia o que foi perdido.
+ * A cada heartbeat a sessão e a membership são revalidadas; se caírem, o stream termina.
+ */
+eventsRoutes.get(
+  "/projects/:projectId/events",
+  tokenFromQuery,
+  authRequired,
+  requireProjectMembership,
+  async (req, res) => {
+    const { projectId } = req.params;
+    const userId = req.auth!.userId;
+    const tokenVersion = req.auth!.tokenVersion ?? 0;
+    let role = req.auth!.role;
+
+    const lastEventId = z
+      .string()
+      .regex(/^\d+$/)
+      .optional()
+      .catch(undefined)
+      .parse(req.header("last-event-id") ?? req.query.last_event_id);
+
+    let replaying = lastEventId !== undefined;
+    const buffered: ProjectEvent[] = [];
+
+    const send = (event: ProjectEvent) => {
+      if (!canSeeEvent(event.type, role)) return;
+      res.write(`id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+    };
+
+    // inscreve antes de reenviar para não perder nada entre a consulta e o LISTEN
+    let unsubscribe: () => void;
+    try {
+      unsubscribe = await subscribe(projectId, (event) => {
+        if (replaying) buffered.push(event);
+        else send(event);
+      });
+    } catch (e) {
+      console.error("[events] LISTEN", e);
+      return res.status(503).json({ error: "Eventos indisponíveis no momento" });
+    }
+
+    res.set({
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+      "X-Accel-Buffering": "no",
+    });
+    res.flushHeaders();
+    res.write("retry: 3000\n\n");
+
+    const heartbeat = setInterval(async () => {
+      try {
+        const current = await currentStreamRole(userId, tokenVersion, projectId);
+        if (!current) {
+          res.write("event: access_revoked\ndata: {}\n\n");
+          return res.end();
+        }
+        role = current;
+        res.write(": ping\n\n");
+      } catch (e) {
+        console.error("[events] revalidação", e);
+      }
+    }, HEARTBEAT_MS);
+
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      unsubscribe();
+    });
+
+    if (lastEventId !== undefined) {
+      const replayed = new Set<string>();
+      try {
+        // página a página até esvaziar o atraso (o buffer ao vivo segura o resto)
+        let after = lastEventId;
+        for (;;) {
+          const page = await listEventsSince(projectId, after);
+          for (const event of page) {
+            replayed.add(event.id);
+            send(event);
+          }
+          if (page.length < REPLAY_PAGE_SIZE || res.destroyed) break;
+          after = page[page.length - 1].id;
+        }
+      } catch (e) {
+        console.error("[events] retomada", e);
+        return res.end();
+      }
+
+      // o que chegou ao vivo durante a consulta e ainda não foi enviado
+      replaying = false;
+      for (const event of buffered.splice(0)) {
+        if (!replayed.has(event.id) && BigInt(event.id) > BigInt(lastEventId)) send(event);
+      }
+    }
+  }
+);
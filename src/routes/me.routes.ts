@@ -1,6 +1,15 @@
 import { Router } from "express";
+import { z } from "zod";
+import { pool } from "../db";
 import { authRequired } from "../middleware/auth";
-import { getUserById, getUserStacks } from "../sql";
+import { getProjectById, getUserById, getUserStacks, requireMembership } from "../sql";
+import { EmailSchema, LanguageSchema, NameSchema, PasswordSchema, StackCodeSchema } from "../schemas";
+import { hashPassword, verifyPassword } from "../services/password.service";
+import { issueSession, revokeUserSessions } from "../services/session.service";
+import { recordAudit } from "../services/audit.service";
+import { NOTIFICATION_TYPES } from "../services/notifications.service";
+import { paginate } from "../services/lists.service";
+import { CursorSchema, cursorFits, keyset, SortColumn } from "../pagination";
 
 export const meRoutes = Router();
 
@@ -19,6 +28,359 @@ meRoutes.get("/me", authRequired, async (req, res) => {
 		stacks,
 		is_active: user.is_active,
 		deleted_at: user.deleted_at,
+		preferences: {
+			language: user.language,
+			default_project_id: user.default_project_id,
+		},
 	});
 
 });
+
+/**
+ * PATCH /api/me
+ * body: { name?, email?, current_password? }
+ * - trocar e-mail exige current_password
+ */
+meRoutes.patch("/me", authRequired, async (req, res) => {
+  const userId = req.auth!.userId;
+
+  const body = z.object({
+    name: NameSchema.optional(),
+    email: EmailSchema.optional(),
+    current_password: z.string().min(1).optional(),
+  }).refine((v) => v.name !== undefined || v.email !== undefined, "Nada para atualizar").parse(req.body);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const curRes = await client.query(
+      `SELECT name, email, password_hash FROM users WHERE id = $1 FOR UPDATE`,
+      [userId]
+    );
+    const current = curRes.rows[0];
+    if (!current) {
+      await client.query("ROLLBACK");
+      return res.status(404).json({ error: "Usuário não encontrado" });
+    }
+
+    if (body.email !== undefined && body.email !== current.email) {
+      const ok = body.current_password
+        ? await verifyPassword(body.current_password, current.password_hash)
+        : false;
+      if (!ok) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: "Senha atual incorreta" });
+      }
+    }
+
+    const { rows } = await client.query(
+      `UPDATE users
+       SET name = COALESCE($1, name),
+           email = COALESCE($2, email),
+           updated_at = now()
+       WHERE id = $3
+       RETURNING id, name, email, role`,
+      [body.name ?? null, body.email ?? null, userId]
+    );
+
+    await recordAudit(client, {
+      actorUserId: userId,
+      action: "user.update",
+      entityType: "user",
+      entityId: userId,
+      before: { name: current.name, email: current.email },
+      after: { name: rows[0].name, email: rows[0].email },
+    });
+
+    await client.query("COMMIT");
+    return res.json(rows[0]);
+  } catch (e: any) {
+    await client.query("ROLLBACK");
+    if (String(e?.code) === "23505") {
+      return res.status(409).json({ error: "E-mail já cadastrado" });
+    }
+    throw e;
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * POST /api/me/password
+ * body: { current_password, new_password }
+ * Derruba as outras sessões e devolve um par de tokens novo para esta.
+ */
+meRoutes.post("/me/password", authRequired, async (req, res) => {
+  const userId = req.auth!.userId;
+
+  const body = z.object({
+    current_password: z.string().min(1),
+    new_password: PasswordSchema,
+  }).parse(req.body);
+
+  const client = await pool.connect();
+  try {
+    await client.query("BEGIN");
+
+    const curRes = await client.query(
+      `SELECT password_hash FROM users WHERE id = $1 FOR UPDATE`,
+      [userId]
+    );
+    const current = curRes.rows[0];
+    if (!current || !(await verifyPassword(body.current_password, current.password_hash))) {
+      await client.query("ROLLBACK");
+      return res.status(403).json({ error: "Senha atual incorreta" });
+    }
+
+    const hash = await hashPassword(body.new_password);
+    await client.query(
+      `UPDATE users SET password_hash = $1, updated_at = now() WHERE id = $2`,
+      [hash, userId]
+    );
+
+    await revokeUserSessions(client, userId);
+
+    const uRes = await client.query(
+      `SELECT id, role, token_version FROM users WHERE id = $1`,
+      [userId]
+    );
+    const session = await issueSession(client, uRes.rows[0]);
+
+    await recordAudit(client, {
+      actorUserId: userId,
+      action: "user.password_change",
+      entityType: "user",
+      entityId: userId,
+      after: { password_changed: true },
+    });
+
+    await client.query("COMMIT");
+    return res.json({ ok: true, token: session.token, refresh_token: session.refresh_token });
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+});
+
+/**
+ * PATCH /api/me/preferences
+ * body: { language?, default_project_id? } (null limpa)
+ */
+meRoutes.patch("/me/preferences", authRequired, async (req, res) => {
+  const userId = req.auth!.userId;
+  const role = req.auth!.role;
+
+  const body = z.object({
+    language: LanguageSchema.nullable().optional(),
+    default_project_id: z.string().uuid().nullable().optional(),
+  }).refine((v) => Object.keys(v).length > 0, "Nada para atualizar").parse(req.body);
+
+  if (body.default_project_id && role === "admin") {
+    const project = await getProjectById(body.default_project_id);
+    if (!project) return res.status(404).json({ error: "Projeto não encontrado" });
+  } else if (body.default_project_id) {
+    const ok = await requireMembership(userId, body.default_project_id);
+    if (!ok) return res.status(403).json({ error: "Acesso negado (não é membro do projeto)" });
+  }
+
+  const fields: string[] = [];
+  const values: any[] = [];
+  let idx = 1;
+
+  if (body.language !== undefined) { fields.push(`language = $${idx++}`); values.push(body.language); }
+  if (body.default_project_id !== undefined) {
+    fields.push(`default_project_id = $${idx++}`);
+    values.push(body.default_project_id);
+  }
+
+  values.push(userId);
+
+  const { rows } = await pool.query(
+    `UPDATE users
+     SET ${fields.join(", ")},
+         updated_at = now()
+     WHERE id = $${idx}
+     RETURNING language, default_project_id`,
+    values
+  );
+
+  return res.json(rows[0]);
+});
+
+/**
+ * GET /api/me/tasks
+ * query: { done?=true|false, stack? }
+ * Tasks atribuídas a mim em todos os projetos ativos em que sou membro.
+ */
+meRoutes.get("/me/tasks", authRequired, async (req, res) => {
+  const userId = req.auth!.userId;
+
+  const q = z.object({
+    done: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+    stack: StackCodeSchema.optional(),
+  }).parse(req.query);
+
+  const { rows } = await pool.query(
+    `SELECT t.id, t.project_id, p.name as project_name,
+            t.backlog_item_id, b.title as backlog_item_title, b.stage as backlog_item_stage,
+            ds.code as stack, t.title, t.description, t.is_done, t.done_at,
+            t.order_index, t.effort_points, t.assigned_at, t.created_at
+     FROM backlog_tasks t
+     JOIN backlog_items b ON b.id = t.backlog_item_id
+     JOIN projects p ON p.id = t.project_id
+     JOIN project_members pm ON pm.project_id = t.project_id AND pm.user_id = t.assignee_user_id
+     JOIN developer_stacks ds ON ds.id = t.stack_id
+     WHERE t.assignee_user_id = $1
+       AND b.is_active = true
+       AND p.is_active = true
+       AND ($2::boolean IS NULL OR t.is_done = $2)
+       AND ($3::text IS NULL OR ds.code = $3)
+     ORDER BY t.is_done ASC, p.name ASC, b.created_at DESC, t.order_index ASC`,
+    [userId, q.done ?? null, q.stack ?? null]
+  );
+
+  return res.json({ items: rows });
+});
+
+/**
+ * GET /api/me/notifications
+ * query: { unread?=true, limit?, cursor? }
+ * Só de projetos ativos em que ainda sou membro. Retorna { items, unread_count, next_cursor }.
+ */
+meRoutes.get("/me/notifications", authRequired, async (req, res) => {
+  const userId = req.auth!.userId;
+
+  const q = z.object({
+    unread: z.enum(["true", "false"]).transform((v) => v === "true").optional(),
+    limit: z.coerce.number().int().min(1).max(100).default(30),
+    cursor: CursorSchema.optional(),
+  }).parse(req.query);
+
+  const sort: SortColumn = { expr: "n.created_at", cast: "timestamptz" };
+  if (q.cursor && !cursorFits(q.cursor, sort.cast)) return res.status(400).json({ error: "Cursor inválido" });
+
+  const params: unknown[] = [userId];
+  const where = ["n.user_id = $1", "p.is_active = true"];
+  if (q.unread) where.push("n.read_at IS NULL");
+
+  const ks = keyset(sort, "n.id", "desc", q.cursor ?? null, params);
+  if (ks.where) where.push(ks.where);
+  params.push(q.limit + 1);
+
+  const visible = `
+     FROM notifications n
+     JOIN projects p ON p.id = n.project_id
+     JOIN project_members pm ON pm.project_id = n.project_id AND pm.user_id = n.user_id`;
+
+  const [listRes, countRes] = await Promise.all([
+    pool.query(
+      `SELECT n.id, n.project_id, p.name as project_name, n.type, n.data, n.read_at, n.created_at,
+              ${ks.sortKeySelect}
+       ${visible}
+       WHERE ${where.join(" AND ")}
+       ORDER BY ${ks.orderBy}
+       LIMIT $${params.length}`,
+      params
+    ),
+    pool.query(
+      `SELECT COUNT(*)::int as unread
+       ${visible}
+       WHERE n.user_id = $1 AND p.is_active = true AND n.read_at IS NULL`,
+      [userId]
+    ),
+  ]);
+
+  const { page, next_cursor } = paginate(listRes.rows, q.limit);
+
+  return res.json({
+    items: page.map(({ sort_key, ...n }) => n),
+    unread_count: countRes.rows[0].unread,
+    next_cursor,
+  });
+});
+
+// POST /api/me/notifications/:notificationId/read
+meRoutes.post("/me/notifications/:notificationId/read", authRequired, async (req, res) => {
+  const userId = req.auth!.userId;
+  const { notificationId } = req.params;
+
+  const { rows } = await pool.query(
+    `UPDATE notifications
+     SET read_at = COALESCE(read_at, now())
+     WHERE id = $1 AND user_id = $2
+     RETURNING id, read_at`,
+    [notificationId, userId]
+  );
+  if (rows.length === 0) return res.status(404).json({ error: "Notificação não encontrada" });
+
+  return res.json(rows[0]);
+});
+
+/**
+ * POST /api/me/notifications/read-all
+ * body: { project_id? } - sem project_id marca todas
+ */
+meRoutes.post("/me/notifications/read-all", authRequired, async (req, res) => {
+  const userId = req.auth!.userId;
+
+  const body = z.object({
+    project_id: z.string().uuid().optional(),
+  }).parse(req.body ?? {});
+
+  const { rowCount } = await pool.query(
+    `UPDATE notifications
+     SET read_at = now()
+     WHERE user_id = $1 AND read_at IS NULL
+       AND ($2::uuid IS NULL OR project_id = $2)`,
+    [userId, body.project_id ?? null]
+  );
+
+  return res.json({ ok: true, updated: rowCount ?? 0 });
+});
+
+// todos os tipos; sem linha salva = ligado
+async function getNotificationPreferences(userId: string) {
+  const { rows } = await pool.query(
+    `SELECT type, enabled FROM notification_preferences WHERE user_id = $1`,
+    [userId]
+  );
+  const saved = new Map(rows.map((r) => [r.type as string, r.enabled as boolean]));
+
+  return NOTIFICATION_TYPES.map((type) => ({ type, enabled: saved.get(type) ?? true }));
+}
+
+// GET /api/me/notification-preferences
+meRoutes.get("/me/notification-preferences", authRequired, async (req, res) => {
+  const userId = req.auth!.userId;
+
+  return res.json({ items: await getNotificationPreferences(userId) });
+});
+
+/**
+ * PUT /api/me/notification-preferences
+ * body: { preferences: { [type]: boolean } }
+ */
+meRoutes.put("/me/notification-preferences", authRequired, async (req, res) => {
+  const userId = req.auth!.userId;
+
+  const body = z.object({
+    preferences: z.record(z.enum(NOTIFICATION_TYPES), z.boolean())
+      .refine((v) => Object.keys(v).length > 0, "Nada para atualizar"),
+  }).parse(req.body);
+
+  const entries = Object.entries(body.preferences);
+
+  await pool.query(
+    `INSERT INTO notification_preferences (user_id, type, enabled)
+     SELECT $1, t.type, t.enabled
+     FROM unnest($2::text[], $3::boolean[]) AS t(type, enabled)
+     ON CONFLICT (user_id, type)
+     DO UPDATE SET enabled = EXCLUDED.enabled, updated_at = now()`,
+    [userId, entries.map(([type]) => type), entries.map(([, enabled]) => enabled)]
+  );
+
+  return res.json({ items: await getNotificationPreferences(userId) });
+});
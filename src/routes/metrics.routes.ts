@@ -0,0 +1,122 @@
+import { Router } from "express";
+import { z } from "zod";
+import { authRequired } from "../middleware/auth";
+import { requireProjectMembership } from "../middleware/requireMembership";
+import { requireRole } from "../middleware/requireRole";
+import { pool } from "../db";
+import { getBurndown, getCumulativeFlow, getProjectMetrics } from "../services/metrics.service";
+import { DateSchema } from "../schemas";
+
+export const metricsRoutes = Router();
+
+const DEFAULT_RANGE_DAYS = 90;
+const DEFAULT_SERIES_DAYS = 30;
+const MAX_SERIES_DAYS = 366;
+
+const DAY_MS = 86400000;
+
+function daysBefore(date: string, days: number) {
+  return new Date(Date.parse(date) - days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * GET /api/projects/:projectId/metrics (developer/manager/admin)
+ * query: { from?=YYYY-MM-DD, to?=YYYY-MM-DD } (padrão: últimos 90 dias)
+ * entrada de sugestões por semana, taxa de pull, medianas de tempo,
+ * tasks abertas/concluídas por stack e distribuição de estágios do backlog
+ */
+metricsRoutes.get(
+  "/projects/:projectId/metrics",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  async (req, res) => {
+    const { projectId } = req.params;
+
+    const parsed = z.object({
+      from: DateSchema.optional(),
+      to: DateSchema.optional(),
+    }).safeParse(req.query);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues[0].message });
+    const q = parsed.data;
+
+    const to = q.to ?? new Date().toISOString().slice(0, 10);
+    const from = q.from ?? daysBefore(to, DEFAULT_RANGE_DAYS);
+    if (from > to) return res.status(400).json({ error: "from deve ser anterior ou igual a to" });
+
+    return res.json(await getProjectMetrics(projectId, { from, to }));
+  }
+);
+
+/**
+ * Query comum das séries diárias.
+ * Com backlog_item_id sem `from`, a série começa na criação do item.
+ */
+async function parseSeriesQuery(projectId: string, query: unknown) {
+  const parsed = z.object({
+    from: DateSchema.optional(),
+    to: DateSchema.optional(),
+    backlog_item_id: z.string().uuid().optional(),
+  }).safeParse(query);
+  if (!parsed.success) return { error: { status: 400, message: parsed.error.issues[0].message } } as const;
+  const q = parsed.data;
+
+  let itemCreatedOn: string | null = null;
+  if (q.backlog_item_id) {
+    const { rows } = await pool.query(
+      `SELECT created_at::date::text as created_on FROM backlog_items WHERE project_id = $1 AND id = $2`,
+      [projectId, q.backlog_item_id]
+    );
+    if (!rows[0]) return { error: { status: 404, message: "Item não encontrado" } } as const;
+    itemCreatedOn = rows[0].created_on;
+  }
+
+  const to = q.to ?? new Date().toISOString().slice(0, 10);
+  const from = q.from ?? (itemCreatedOn && itemCreatedOn < to ? itemCreatedOn : daysBefore(to, DEFAULT_SERIES_DAYS));
+  if (from > to) return { error: { status: 400, message: "from deve ser anterior ou igual a to" } } as const;
+  if (Date.parse(to) - Date.parse(from) >= MAX_SERIES_DAYS * DAY_MS) {
+    return { error: { status: 400, message: `Intervalo máximo de ${MAX_SERIES_DAYS} dias` } } as const;
+  }
+
+  return { range: { from, to }, backlogItemId: q.backlog_item_id ?? null } as const;
+}
+
+/**
+ * GET /api/projects/:projectId/metrics/burndown (developer/manager/admin)
+ * query: { from?, to?, backlog_item_id? }
+ * { range, dates: [...], series: [{ key: remaining|total|ideal, values: [...] }] }
+ */
+metricsRoutes.get(
+  "/projects/:projectId/metrics/burndown",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  async (req, res) => {
+    const { projectId } = req.params;
+
+    const parsed = await parseSeriesQuery(projectId, req.query);
+    if (parsed.error) return res.status(parsed.error.status).json({ error: parsed.error.message });
+
+    return res.json(await getBurndown(projectId, parsed.range, parsed.backlogItemId));
+  }
+);
+
+/**
+ * GET /api/projects/:projectId/metrics/cumulative-flow (developer/manager/admin)
+ * query: { from?, to?, backlog_item_id? }
+ * { range, dates: [...], series: [{ key: todo|doing|review|done|blocked, values: [...] }] }
+ */
+metricsRoutes.get(
+  "/projects/:projectId/metrics/cumulative-flow",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  async (req, res) => {
+    const { projectId } = req.params;
+
+    const parsed = await parseSeriesQuery(projectId, req.query);
+    if (parsed.error) return res.status(parsed.error.status).json({ error: parsed.error.message });
+
+    return res.json(await getCumulativeFlow(projectId, parsed.range, parsed.backlogItemId));
+  }
+);
@@ -0,0 +1,449 @@
+import { Router } from "express";
+import { z } from "zod";
+import { authRequired } from "../middleware/auth";
+import { requireProjectMembership } from "../middleware/requireMembership";
+import { requireRole } from "../middleware/requireRole";
+import { pool } from "../db";
+import { recordAudit } from "../services/audit.service";
+import { DateSchema } from "../schemas";
+
+export const milestonesRoutes = Router();
+
+// progresso do milestone = média do progress_percent (mantido por recalcProgress) dos itens ativos
+const MILESTONE_SELECT = `
+  SELECT m.id, m.project_id, m.name, m.description,
+         m.start_date::text as start_date, m.end_date::text as end_date,
+         m.status, m.closed_at, m.created_at,
+         COUNT(b.id)::int AS items_total,
+         (COUNT(b.id) FILTER (WHERE b.stage = 'done'))::int AS items_done,
+         COALESCE(ROUND(AVG(b.progress_percent)), 0)::int AS progress_percent
+  FROM milestones m
+  LEFT JOIN backlog_items b ON b.milestone_id = m.id AND b.is_active = true`;
+
+// GET milestones do projeto (developer/manager/admin)
+milestonesRoutes.get(
+  "/projects/:projectId/milestones",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  async (req, res) => {
+    const { projectId } = req.params;
+
+    const q = z.object({
+      status: z.enum(["open", "closed"]).optional(),
+    }).parse(req.query);
+
+    const { rows } = await pool.query(
+      `${MILESTONE_SELECT}
+       WHERE m.project_id = $1 AND ($2::text IS NULL OR m.status = $2)
+       GROUP BY m.id
+       ORDER BY m.start_date ASC, m.created_at ASC`,
+      [projectId, q.status ?? null]
+    );
+
+    return res.json({ items: rows });
+  }
+);
+
+// GET milestone detail: agregados + itens + distribuição por stage
+milestonesRoutes.get(
+  "/projects/:projectId/milestones/:milestoneId",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  async (req, res) => {
+    const { projectId, milestoneId } = req.params;
+
+    const mRes = await pool.query(
+      `${MILESTONE_SELECT}
+       WHERE m.project_id = $1 AND m.id = $2
+       GROUP BY m.id`,
+      [projectId, milestoneId]
+    );
+    const milestone = mRes.rows[0];
+    if (!milestone) return res.status(404).json({ error: "Milestone não encontrado" });
+
+    const itemsRes = await pool.query(
+      `SELECT b.id, b.title, b.stage, b.priority, b.progress_percent, b.suggestion_id,
+              COUNT(t.id)::int AS tasks_total,
+              (COUNT(t.id) FILTER (WHERE t.is_done))::int AS tasks_done
+       FROM backlog_items b
+       LEFT JOIN backlog_tasks t ON t.backlog_item_id = b.id
+       WHERE b.project_id = $1 AND b.milestone_id = $2 AND b.is_active = true
+       GROUP BY b.id
+       ORDER BY b.created_at ASC`,
+      [projectId, milestoneId]
+    );
+
+    const stages: Record<string, number> = { todo: 0, doing: 0, review: 0, done: 0, blocked: 0 };
+    let tasksTotal = 0;
+    let tasksDone = 0;
+    for (const item of itemsRes.rows) {
+      stages[item.stage] = (stages[item.stage] ?? 0) + 1;
+      tasksTotal += item.tasks_total;
+      tasksDone += item.tasks_done;
+    }
+
+    return res.json({
+      ...milestone,
+      tasks_total: tasksTotal,
+      tasks_done: tasksDone,
+      stages,
+      items: itemsRes.rows,
+    });
+  }
+);
+
+// CREATE milestone (manager/admin)
+milestonesRoutes.post(
+  "/projects/:projectId/milestones",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["manager", "admin"]),
+  async (req, res) => {
+    const { projectId } = req.params;
+    const userId = req.auth!.userId;
+
+    const parsed = z.object({
+      name: z.string().min(1).max(120),
+      description: z.string().max(2_000).optional().nullable(),
+      start_date: DateSchema,
+      end_date: DateSchema,
+    }).refine((v) => v.end_date >= v.start_date, "end_date deve ser >= start_date").safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues[0].message });
+    const body = parsed.data;
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const { rows } = await client.query(
+        `INSERT INTO milestones (project_id, name, description, start_date, end_date, created_by_user_id)
+         VALUES ($1, $2, $3, $4, $5, $6)
+         RETURNING id, project_id, name, description, start_date::text as start_date,
+                   end_date::text as end_date, status, closed_at, created_at`,
+        [projectId, body.name, body.description ?? null, body.start_date, body.end_date, userId]
+      );
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "milestone.create",
+        entityType: "milestone",
+        entityId: rows[0].id,
+        after: rows[0],
+      });
+
+      await client.query("COMMIT");
+      return res.status(201).json(rows[0]);
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+// UPDATE milestone (manager/admin)
+milestonesRoutes.patch(
+  "/projects/:projectId/milestones/:milestoneId",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["manager", "admin"]),
+  async (req, res) => {
+    const { projectId, milestoneId } = req.params;
+    const userId = req.auth!.userId;
+
+    const parsed = z.object({
+      name: z.string().min(1).max(120).optional(),
+      description: z.string().max(2_000).optional().nullable(),
+      start_date: DateSchema.optional(),
+      end_date: DateSchema.optional(),
+    })
+      .refine((v) => Object.keys(v).length > 0, "Nada para atualizar")
+      .refine((v) => !v.start_date || !v.end_date || v.end_date >= v.start_date, "end_date deve ser >= start_date")
+      .safeParse(req.body);
+    if (!parsed.success) return res.status(400).json({ error: parsed.error.issues[0].message });
+    const body = parsed.data;
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const beforeRes = await client.query(
+        `SELECT name, description, start_date::text as start_date, end_date::text as end_date, status
+         FROM milestones
+         WHERE project_id = $1 AND id = $2
+         FOR UPDATE`,
+        [projectId, milestoneId]
+      );
+      const before = beforeRes.rows[0];
+      if (!before) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Milestone não encontrado" });
+      }
+
+      const start = body.start_date ?? before.start_date;
+      const end = body.end_date ?? before.end_date;
+      if (end < start) {
+        await client.query("ROLLBACK");
+        return res.status(400).json({ error: "end_date deve ser >= start_date" });
+      }
+
+      const { rows } = await client.query(
+        `UPDATE milestones
+         SET name = COALESCE($1, name),
+             description = CASE WHEN $2::boolean THEN $3 ELSE description END,
+             start_date = $4,
+             end_date = $5,
+             updated_at = now()
+         WHERE project_id = $6 AND id = $7
+         RETURNING id, project_id, name, description, start_date::text as start_date,
+                   end_date::text as end_date, status, closed_at, created_at`,
+        [
+          body.name ?? null,
+          body.description !== undefined,
+          body.description ?? null,
+          start,
+          end,
+          projectId,
+          milestoneId
+        ]
+      );
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "milestone.update",
+        entityType: "milestone",
+        entityId: milestoneId,
+        before,
+        after: rows[0],
+      });
+
+      await client.query("COMMIT");
+      return res.json(rows[0]);
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+/**
+ * POST /api/projects/:projectId/milestones/:milestoneId/close
+ * body: { carry_over?: boolean, carry_over_to?: uuid }
+ * - sem carry_over: fecha e devolve os itens não concluídos + sugestão de próximo milestone
+ * - carry_over: move itens não concluídos (stage != done) para carry_over_to
+ *   ou, se omitido, para o próximo milestone aberto (por start_date)
+ */
+milestonesRoutes.post(
+  "/projects/:projectId/milestones/:milestoneId/close",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["manager", "admin"]),
+  async (req, res) => {
+    const { projectId, milestoneId } = req.params;
+    const userId = req.auth!.userId;
+
+    const body = z.object({
+      carry_over: z.boolean().default(false),
+      carry_over_to: z.string().uuid().optional(),
+    }).parse(req.body ?? {});
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const mRes = await client.query(
+        `SELECT id, status, start_date::text as start_date
+         FROM milestones
+         WHERE project_id = $1 AND id = $2
+         FOR UPDATE`,
+        [projectId, milestoneId]
+      );
+      const milestone = mRes.rows[0];
+      if (!milestone) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Milestone não encontrado" });
+      }
+      if (milestone.status === "closed") {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "Milestone já está fechado" });
+      }
+
+      // próximo milestone aberto (explícito ou o seguinte por data)
+      const nextRes = await client.query(
+        `SELECT id, name
+         FROM milestones
+         WHERE project_id = $1 AND status = 'open' AND id <> $2
+           AND ($3::uuid IS NULL AND start_date >= $4::date OR id = $3)
+         ORDER BY start_date ASC, created_at ASC
+         LIMIT 1`,
+        [projectId, milestoneId, body.carry_over_to ?? null, milestone.start_date]
+      );
+      const next = nextRes.rows[0] ?? null;
+
+      if (body.carry_over_to && !next) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Milestone de destino não encontrado ou fechado" });
+      }
+      if (body.carry_over && !next) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "Nenhum milestone aberto seguinte para receber os itens" });
+      }
+
+      const unfinishedRes = await client.query(
+        `SELECT id, title, stage, progress_percent
+         FROM backlog_items
+         WHERE project_id = $1 AND milestone_id = $2 AND is_active = true AND stage <> 'done'
+         ORDER BY created_at ASC`,
+        [projectId, milestoneId]
+      );
+      const unfinished = unfinishedRes.rows;
+
+      const carry = body.carry_over || Boolean(body.carry_over_to);
+      if (carry && unfinished.length > 0) {
+        await client.query(
+          `UPDATE backlog_items
+           SET milestone_id = $1, updated_at = now()
+           WHERE id = ANY($2::uuid[])`,
+          [next.id, unfinished.map((i) => i.id)]
+        );
+      }
+
+      const { rows } = await client.query(
+        `UPDATE milestones
+         SET status = 'closed', closed_at = now(), updated_at = now()
+         WHERE id = $1
+         RETURNING id, project_id, name, description, start_date::text as start_date,
+                   end_date::text as end_date, status, closed_at, created_at`,
+        [milestoneId]
+      );
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "milestone.close",
+        entityType: "milestone",
+        entityId: milestoneId,
+        before: { status: "open" },
+        after: {
+          status: "closed",
+          carried_over_to: carry ? next.id : null,
+          carried_over_items: carry ? unfinished.map((i) => i.id) : [],
+        },
+      });
+
+      await client.query("COMMIT");
+      return res.json({
+        milestone: rows[0],
+        carried_over: carry ? unfinished.length : 0,
+        carried_over_to: carry ? next : null,
+        unfinished_items: carry ? [] : unfinished,
+        next_milestone: next,
+      });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+// REOPEN milestone (manager/admin)
+milestonesRoutes.post(
+  "/projects/:projectId/milestones/:milestoneId/reopen",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["manager", "admin"]),
+  async (req, res) => {
+    const { projectId, milestoneId } = req.params;
+    const userId = req.auth!.userId;
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const { rows } = await client.query(
+        `UPDATE milestones
+         SET status = 'open', closed_at = NULL, updated_at = now()
+         WHERE project_id = $1 AND id = $2 AND status = 'closed'
+         RETURNING id, project_id, name, description, start_date::text as start_date,
+                   end_date::text as end_date, status, closed_at, created_at`,
+        [projectId, milestoneId]
+      );
+      if (rows.length === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Milestone fechado não encontrado" });
+      }
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "milestone.reopen",
+        entityType: "milestone",
+        entityId: milestoneId,
+        before: { status: "closed" },
+        after: { status: "open" },
+      });
+
+      await client.query("COMMIT");
+      return res.json(rows[0]);
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
+
+// DELETE milestone (manager/admin) - itens ficam sem milestone
+milestonesRoutes.delete(
+  "/projects/:projectId/milestones/:milestoneId",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["manager", "admin"]),
+  async (req, res) => {
+    const { projectId, milestoneId } = req.params;
+    const userId = req.auth!.userId;
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      const del = await client.query(
+        `DELETE FROM milestones
+         WHERE project_id = $1 AND id = $2
+         RETURNING name, start_date::text as start_date, end_date::text as end_date, status`,
+        [projectId, milestoneId]
+      );
+      if (del.rowCount === 0) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Milestone não encontrado" });
+      }
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "milestone.delete",
+        entityType: "milestone",
+        entityId: milestoneId,
+        before: del.rows[0],
+      });
+
+      await client.query("COMMIT");
+      return res.json({ ok: true });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
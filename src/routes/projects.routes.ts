@@ -1,4 +1,6 @@
 import { Router } from "express";
+import { z } from "zod";
+import { pool } from "../db";
 import { authRequired } from "../middleware/auth";
 import { requireProjectMembership } from "../middleware/requireMembership";
 import { getAllProjects, getAllProjectsAdmin, getProjectById, getProjectsForUser } from "../sql";
@@ -35,3 +37,55 @@ projectsRoutes.get(
   }
 );
 
+/**
+ * GET /api/projects/:projectId/activity
+ * Feed de atividade do projeto (a partir do audit log).
+ * - role user: só eventos de sugestões (e comentários em sugestões)
+ * - autor só aparece para developer/admin (mesma regra das sugestões)
+ */
+projectsRoutes.get(
+  "/projects/:projectId/activity",
+  authRequired,
+  requireProjectAccess,
+  async (req, res) => {
+    const { projectId } = req.params;
+    const role = req.auth!.role;
+
+    const q = z.object({
+      limit: z.coerce.number().int().min(1).max(100).default(30),
+      cursor: z.coerce.number().int().positive().optional(),
+    }).parse(req.query);
+
+    const seesBacklog = role === "developer" || role === "manager" || role === "admin";
+
+    const { rows } = await pool.query(
+      `SELECT a.id, a.action, a.entity_type, a.entity_id, a.created_at,
+              u.id as actor_id, u.name as actor_name
+       FROM audit_events a
+       JOIN users u ON u.id = a.actor_user_id
+       WHERE a.project_id = $1
+         AND ($2::boolean
+              OR a.entity_type = 'suggestion'
+              OR (a.entity_type = 'comment' AND COALESCE(a.after, a.before) ? 'suggestion_id'))
+         AND ($3::bigint IS NULL OR a.id < $3)
+       ORDER BY a.id DESC
+       LIMIT $4`,
+      [projectId, seesBacklog, q.cursor ?? null, q.limit]
+    );
+
+    const canSeeAuthor = role === "developer" || role === "admin";
+
+    const items = rows.map((r) => ({
+      id: String(r.id),
+      action: r.action,
+      entity_type: r.entity_type,
+      entity_id: r.entity_id,
+      created_at: r.created_at,
+      actor_id: canSeeAuthor ? r.actor_id : undefined,
+      actor_name: canSeeAuthor ? r.actor_name : undefined,
+    }));
+
+    const next_cursor = rows.length === q.limit ? String(rows[rows.length - 1].id) : null;
+    return res.json({ items, next_cursor });
+  }
+);
@@ -0,0 +1,110 @@
+import { Router } from "express";
+import { z } from "zod";
+import { authRequired } from "../middleware/auth";
+import { requireProjectMembership } from "../middleware/requireMembership";
+import { pool } from "../db";
+
+export const searchRoutes = Router();
+
+// trechos destacados com <mark>, até 2 fragmentos
+const HEADLINE_OPTS = "StartSel=<mark>, StopSel=</mark>, MaxFragments=2, MaxWords=20, MinWords=5";
+
+// o texto vem do usuário: escapa o HTML antes do ts_headline para que só o <mark> seja markup
+function headline(sourceSql: string) {
+  const escaped = `replace(replace(replace(replace(replace(${sourceSql}, '&', '&amp;'), '<', '&lt;'), '>', '&gt;'), '"', '&quot;'), '''', '&#39;')`;
+  return `ts_headline('portuguese', ${escaped}, query, $4)`;
+}
+
+/**
+ * GET /api/projects/:projectId/search?q=&limit=
+ * Resultados ranqueados e agrupados por tipo.
+ * - backlog_items/tasks só para developer/manager/admin
+ * - autor da sugestão só para developer/admin
+ */
+searchRoutes.get(
+  "/projects/:projectId/search",
+  authRequired,
+  requireProjectMembership,
+  async (req, res) => {
+    const { projectId } = req.params;
+    const role = req.auth!.role;
+
+    const q = z.object({
+      q: z.string().trim().min(2).max(200),
+      limit: z.coerce.number().int().min(1).max(50).default(10),
+    }).parse(req.query);
+
+    const canSeeAuthor = role === "developer" || role === "admin";
+    const seesBacklog = role === "developer" || role === "manager" || role === "admin";
+
+    const sugRes = await pool.query(
+      `SELECT s.id, s.title, s.status, s.score, s.progress_percent, s.created_at,
+              u.id as author_id, u.name as author_name,
+              ts_rank(s.search_tsv, query) as rank,
+              ${headline("s.title")} as title_highlight,
+              ${headline("s.description")} as snippet
+       FROM suggestions s
+       JOIN users u ON u.id = s.created_by_user_id,
+            websearch_to_tsquery('portuguese', $2) query
+       WHERE s.project_id = $1 AND s.search_tsv @@ query
+       ORDER BY rank DESC, s.created_at DESC
+       LIMIT $3`,
+      [projectId, q.q, q.limit, HEADLINE_OPTS]
+    );
+
+    const suggestions = sugRes.rows.map((r) => ({
+      id: r.id,
+      title: r.title,
+      status: r.status,
+      score: r.score,
+      progress_percent: r.progress_percent,
+      created_at: r.created_at,
+      rank: r.rank,
+      title_highlight: r.title_highlight,
+      snippet: r.snippet,
+      author_id: canSeeAuthor ? r.author_id : undefined,
+      author_name: canSeeAuthor ? r.author_name : undefined,
+    }));
+
+    if (!seesBacklog) {
+      return res.json({ query: q.q, suggestions });
+    }
+
+    const [itemsRes, tasksRes] = await Promise.all([
+      pool.query(
+        `SELECT b.id, b.title, b.stage, b.priority, b.progress_percent, b.created_at,
+                ts_rank(b.search_tsv, query) as rank,
+                ${headline("b.title")} as title_highlight,
+                ${headline("coalesce(b.summary, '')")} as snippet
+         FROM backlog_items b,
+              websearch_to_tsquery('portuguese', $2) query
+         WHERE b.project_id = $1 AND b.is_active = true AND b.search_tsv @@ query
+         ORDER BY rank DESC, b.created_at DESC
+         LIMIT $3`,
+        [projectId, q.q, q.limit, HEADLINE_OPTS]
+      ),
+      pool.query(
+        `SELECT t.id, t.backlog_item_id, b.title as backlog_item_title, ds.code as stack,
+                t.title, t.is_done, t.created_at,
+                ts_rank(t.search_tsv, query) as rank,
+                ${headline("t.title")} as title_highlight,
+                ${headline("coalesce(t.description, '')")} as snippet
+         FROM backlog_tasks t
+         JOIN backlog_items b ON b.id = t.backlog_item_id
+         JOIN developer_stacks ds ON ds.id = t.stack_id,
+              websearch_to_tsquery('portuguese', $2) query
+         WHERE t.project_id = $1 AND b.is_active = true AND t.search_tsv @@ query
+         ORDER BY rank DESC, t.created_at DESC
+         LIMIT $3`,
+        [projectId, q.q, q.limit, HEADLINE_OPTS]
+      ),
+    ]);
+
+    return res.json({
+      query: q.q,
+      suggestions,
+      backlog_items: itemsRes.rows,
+      tasks: tasksRes.rows,
+    });
+  }
+);
@@ -1,13 +1,39 @@
-import { Router } from "express";
+import { Request, Response, Router } from "express";
 import { z } from "zod";
 import { authRequired } from "../middleware/auth";
 import { requireProjectMembership } from "../middleware/requireMembership";
 import { pool } from "../db";
 import { requireRole } from "../middleware/requireRole";
+import { recordAudit } from "../services/audit.service";
+import { changeSuggestionStatus } from "../services/suggestionStatus.service";
+import { BacklogStage, SuggestionStatus } from "../types";
+import { topRank } from "../rank";
+import { publishEvent } from "../services/events.service";
+import { enqueueWebhooks } from "../services/webhooks.service";
+import { notifySuggestionAuthor } from "../services/notifications.service";
+import { moveVotes, recalcVoteCounters } from "../services/votes.service";
+import { recordStageTransition } from "../services/backlogWorkflow.service";
+import { buildSuggestionListSql, paginate, suggestionCursorFits, SuggestionListQuerySchema } from "../services/lists.service";
+import {
+  EXPORT_BATCH_SIZE,
+  ExportColumn,
+  exportFilename,
+  ExportFormatSchema,
+  getProjectTaskStacks,
+  getTaskCounts,
+  TaskCounts,
+  taskStackColumns,
+  writeExport,
+} from "../services/exports.service";
 
 export const suggestionsRoutes = Router();
 
-// GET list
+/**
+ * GET list
+ * query: { status?=open,done, sort?=created_at|score|votes|progress, order?=asc|desc, limit?, cursor? }
+ * - sem limit: array (formato antigo)
+ * - com limit: { items, next_cursor }
+ */
 suggestionsRoutes.get(
   "/projects/:projectId/suggestions",
   authRequired,
@@ -17,24 +43,19 @@ suggestionsRoutes.get(
     const userId = req.auth!.userId;
     const role = req.auth!.role;
 
+    const q = SuggestionListQuerySchema.parse(req.query);
+    if (!suggestionCursorFits(q)) return res.status(400).json({ error: "Cursor inválido" });
+
     // Sugestões do projeto
-    const sugRes = await pool.query(
-      `SELECT s.id, s.project_id, s.title, s.description, s.status, s.progress_percent,
-              s.score, s.upvotes_count, s.downvotes_count, s.backlog_item_id, s.created_at,
-              u.id as author_id, u.name as author_name
-       FROM suggestions s
-       JOIN users u ON u.id = s.created_by_user_id
-       WHERE s.project_id = $1
-       ORDER BY s.created_at DESC`,
-      [projectId]
-    );
+    const sugRes = await pool.query(buildSuggestionListSql(projectId, q));
+    const { page, next_cursor } = paginate(sugRes.rows, q.limit);
 
-    // Meu voto por sugestão
+    // Meu voto por sugestão (só da página)
     const voteRes = await pool.query(
       `SELECT suggestion_id, vote
        FROM suggestion_votes
-       WHERE project_id = $1 AND user_id = $2`,
-      [projectId, userId]
+       WHERE project_id = $1 AND user_id = $2 AND suggestion_id = ANY($3::uuid[])`,
+      [projectId, userId, page.map((r) => r.id)]
     );
     const voteMap = new Map<string, number>(voteRes.rows.map(r => [r.suggestion_id, r.vote]));
 
@@ -56,7 +77,7 @@ suggestionsRoutes.get(
       author_name: string;
     };
 
-    const items = sugRes.rows.map((r: SuggestionRow) => ({
+    const items = page.map((r: SuggestionRow) => ({
       id: r.id,
       project_id: r.project_id,
       title: r.title,
@@ -73,10 +94,75 @@ suggestionsRoutes.get(
       user_vote: voteMap.get(r.id) ?? 0,
     }));
 
+    if (q.limit) return res.json({ items, next_cursor });
     return res.json(items);
   }
 );
 
+/**
+ * GET /api/projects/:projectId/suggestions/export
+ * query: { format?=csv|md, + mesmos filtros/ordenação da lista (limit/cursor ignorados) }
+ * - CSV em streaming (lotes pelo keyset)
+ * - autor só para developer/admin (mesma regra da lista)
+ */
+suggestionsRoutes.get(
+  "/projects/:projectId/suggestions/export",
+  authRequired,
+  requireProjectMembership,
+  async (req, res) => {
+    const { projectId } = req.params;
+    const role = req.auth!.role;
+
+    const format = ExportFormatSchema.parse(req.query.format);
+    const q = SuggestionListQuerySchema.parse(req.query);
+    const canSeeAuthor = role === "developer" || role === "admin";
+
+    const pRes = await pool.query(`SELECT name FROM projects WHERE id = $1`, [projectId]);
+    const stacks = await getProjectTaskStacks(projectId);
+
+    type Row = {
+      id: string;
+      sort_key: string;
+      title: string;
+      status: string;
+      progress_percent: number;
+      score: number;
+      upvotes_count: number;
+      downvotes_count: number;
+      backlog_item_id: string | null;
+      created_at: Date;
+      author_name: string;
+    };
+
+    let counts: TaskCounts = new Map();
+    const columns: ExportColumn<Row>[] = [
+      { header: "id", value: (r) => r.id },
+      { header: "title", value: (r) => r.title },
+      { header: "status", value: (r) => r.status },
+      { header: "progress_percent", value: (r) => r.progress_percent },
+      { header: "score", value: (r) => r.score },
+      { header: "likes", value: (r) => r.upvotes_count },
+      { header: "dislikes", value: (r) => r.downvotes_count },
+      { header: "backlog_item_id", value: (r) => r.backlog_item_id },
+      ...taskStackColumns<Row>(stacks, format, () => counts, (r) => r.backlog_item_id),
+      ...(canSeeAuthor ? [{ header: "author_name", value: (r: Row) => r.author_name }] : []),
+      { header: "created_at", value: (r) => r.created_at },
+    ];
+
+    await writeExport<Row>(res, {
+      format,
+      filename: exportFilename("sugestoes", pRes.rows[0]?.name ?? ""),
+      title: `Sugestões — ${pRes.rows[0]?.name ?? ""}`,
+      columns,
+      fetchBatch: async (cursor) =>
+        (await pool.query(buildSuggestionListSql(projectId, { ...q, limit: EXPORT_BATCH_SIZE, cursor: cursor ?? undefined }))).rows,
+      beforeBatch: async (rows) => {
+        counts = await getTaskCounts(projectId, rows.flatMap((r) => (r.backlog_item_id ? [r.backlog_item_id] : [])));
+      },
+    });
+  }
+);
+
 // GET detail
 suggestionsRoutes.get(
   "/projects/:projectId/suggestions/:suggestionId",
@@ -90,7 +176,7 @@ suggestionsRoutes.get(
     const sugRes = await pool.query(
       `SELECT s.id, s.project_id, s.title, s.description, s.status, s.progress_percent,
               s.score, s.upvotes_count, s.downvotes_count, s.backlog_item_id, s.created_at,
-              u.id as author_id, u.name as author_name
+              s.merged_into_id, u.id as author_id, u.name as author_name
        FROM suggestions s
        JOIN users u ON u.id = s.created_by_user_id
        WHERE s.project_id = $1 AND s.id = $2`,
@@ -108,6 +194,25 @@ suggestionsRoutes.get(
 
     const canSeeAuthor = role === "developer" || role === "admin";
 
+    const hRes = await pool.query(
+      `SELECT h.from_status, h.to_status, h.reason, h.created_at,
+              u.id as changed_by_id, u.name as changed_by_name
+       FROM suggestion_status_history h
+       JOIN users u ON u.id = h.changed_by_user_id
+       WHERE h.project_id = $1 AND h.suggestion_id = $2
+       ORDER BY h.created_at ASC`,
+      [projectId, suggestionId]
+    );
+
+    const status_history = hRes.rows.map((h) => ({
+      from_status: h.from_status,
+      to_status: h.to_status,
+      reason: h.reason,
+      created_at: h.created_at,
+      changed_by_id: canSeeAuthor ? h.changed_by_id : undefined,
+      changed_by_name: canSeeAuthor ? h.changed_by_name : undefined,
+    }));
+
     return res.json({
       id: row.id,
       project_id: row.project_id,
@@ -123,6 +228,8 @@ suggestionsRoutes.get(
       author_id: canSeeAuthor ? row.author_id : undefined,
       author_name: canSeeAuthor ? row.author_name : undefined,
       user_vote: vRes.rows[0]?.vote ?? 0,
+      merged_into_id: row.merged_into_id,
+      status_history,
     });
   }
 );
@@ -141,29 +248,67 @@ suggestionsRoutes.post(
       description: z.string().min(1).max(10_000),
     }).parse(req.body);
 
-    const { rows } = await pool.query(
-      `INSERT INTO suggestions (project_id, created_by_user_id, title, description)
-       VALUES ($1, $2, $3, $4)
-       RETURNING id, project_id, title, description, status, progress_percent, score,
-                 upvotes_count, downvotes_count, backlog_item_id, created_at`,
-      [projectId, userId, body.title, body.description]
-    );
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
 
-    const s = rows[0];
-    return res.status(201).json({
-      id: s.id,
-      project_id: s.project_id,
-      title: s.title,
-      description: s.description,
-      status: s.status,
-      progress_percent: s.progress_percent,
-      score: s.score,
-      likes: s.upvotes_count,
-      dislikes: s.downvotes_count,
-      backlog_item_id: s.backlog_item_id,
-      created_at: s.created_at,
-      user_vote: 0,
-    });
+      const { rows } = await client.query(
+        `INSERT INTO suggestions (project_id, created_by_user_id, title, description)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id, project_id, title, description, status, progress_percent, score,
+                   upvotes_count, downvotes_count, backlog_item_id, created_at`,
+        [projectId, userId, body.title, body.description]
+      );
+      const s = rows[0];
+
+      // sem autor: o stream vai para todos os membros
+      await publishEvent(client, projectId, "suggestion.created", { suggestion: s });
+      await enqueueWebhooks(client, projectId, "suggestion.created", { suggestion: s });
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "suggestion.create",
+        entityType: "suggestion",
+        entityId: s.id,
+        after: { title: s.title, description: s.description, status: s.status },
+      });
+
+      // prováveis duplicatas (trigramas no título + texto)
+      const dupRes = await client.query(
+        `SELECT id, title, status, score,
+                GREATEST(similarity(title, $3), word_similarity($3, title || ' ' || description)) as similarity
+         FROM suggestions
+         WHERE project_id = $1 AND id <> $2 AND merged_into_id IS NULL AND status <> 'rejected'
+           AND (title % $3 OR $3 <% (title || ' ' || description))
+         ORDER BY similarity DESC
+         LIMIT 5`,
+        [projectId, s.id, s.title]
+      );
+
+      await client.query("COMMIT");
+
+      return res.status(201).json({
+        id: s.id,
+        project_id: s.project_id,
+        title: s.title,
+        description: s.description,
+        status: s.status,
+        progress_percent: s.progress_percent,
+        score: s.score,
+        likes: s.upvotes_count,
+        dislikes: s.downvotes_count,
+        backlog_item_id: s.backlog_item_id,
+        created_at: s.created_at,
+        user_vote: 0,
+        possible_duplicates: dupRes.rows,
+      });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
   }
 );
 
@@ -181,28 +326,59 @@ suggestionsRoutes.patch(
       description: z.string().min(1).max(10_000).optional(),
     }).refine((v) => v.title || v.description, "Nada para atualizar").parse(req.body);
 
-    const check = await pool.query(
-      `SELECT created_by_user_id, backlog_item_id
-       FROM suggestions
-       WHERE project_id = $1 AND id = $2`,
-      [projectId, suggestionId]
-    );
-    const row = check.rows[0];
-    if (!row) return res.status(404).json({ error: "Sugestão não encontrada" });
-    if (row.created_by_user_id !== userId) return res.status(403).json({ error: "Sem permissão" });
-    if (row.backlog_item_id) return res.status(409).json({ error: "Sugestão já foi puxada para desenvolvimento" });
-
-    const { rows } = await pool.query(
-      `UPDATE suggestions
-       SET title = COALESCE($1, title),
-           description = COALESCE($2, description),
-           updated_at = now()
-       WHERE project_id = $3 AND id = $4
-       RETURNING id, title, description`,
-      [body.title ?? null, body.description ?? null, projectId, suggestionId]
-    );
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
 
-    return res.json(rows[0]);
+      const check = await client.query(
+        `SELECT created_by_user_id, backlog_item_id, title, description
+         FROM suggestions
+         WHERE project_id = $1 AND id = $2
+         FOR UPDATE`,
+        [projectId, suggestionId]
+      );
+      const row = check.rows[0];
+      if (!row) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Sugestão não encontrada" });
+      }
+      if (row.created_by_user_id !== userId) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: "Sem permissão" });
+      }
+      if (row.backlog_item_id) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "Sugestão já foi puxada para desenvolvimento" });
+      }
+
+      const { rows } = await client.query(
+        `UPDATE suggestions
+         SET title = COALESCE($1, title),
+             description = COALESCE($2, description),
+             updated_at = now()
+         WHERE project_id = $3 AND id = $4
+         RETURNING id, title, description`,
+        [body.title ?? null, body.description ?? null, projectId, suggestionId]
+      );
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "suggestion.update",
+        entityType: "suggestion",
+        entityId: suggestionId,
+        before: { title: row.title, description: row.description },
+        after: { title: rows[0].title, description: rows[0].description },
+      });
+
+      await client.query("COMMIT");
+      return res.json(rows[0]);
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
   }
 );
 
@@ -215,23 +391,53 @@ suggestionsRoutes.delete(
     const { projectId, suggestionId } = req.params;
     const userId = req.auth!.userId;
 
-    const check = await pool.query(
-      `SELECT created_by_user_id, backlog_item_id
-       FROM suggestions
-       WHERE project_id = $1 AND id = $2`,
-      [projectId, suggestionId]
-    );
-    const row = check.rows[0];
-    if (!row) return res.status(404).json({ error: "Sugestão não encontrada" });
-    if (row.created_by_user_id !== userId) return res.status(403).json({ error: "Sem permissão" });
-    if (row.backlog_item_id) return res.status(409).json({ error: "Sugestão já foi puxada para desenvolvimento" });
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
 
-    await pool.query(
-      `DELETE FROM suggestions WHERE project_id = $1 AND id = $2`,
-      [projectId, suggestionId]
-    );
+      const check = await client.query(
+        `SELECT created_by_user_id, backlog_item_id, title, description, status, score
+         FROM suggestions
+         WHERE project_id = $1 AND id = $2
+         FOR UPDATE`,
+        [projectId, suggestionId]
+      );
+      const row = check.rows[0];
+      if (!row) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Sugestão não encontrada" });
+      }
+      if (row.created_by_user_id !== userId) {
+        await client.query("ROLLBACK");
+        return res.status(403).json({ error: "Sem permissão" });
+      }
+      if (row.backlog_item_id) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "Sugestão já foi puxada para desenvolvimento" });
+      }
+
+      await client.query(
+        `DELETE FROM suggestions WHERE project_id = $1 AND id = $2`,
+        [projectId, suggestionId]
+      );
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "suggestion.delete",
+        entityType: "suggestion",
+        entityId: suggestionId,
+        before: { title: row.title, description: row.description, status: row.status, score: row.score },
+      });
 
-    return res.json({ ok: true });
+      await client.query("COMMIT");
+      return res.json({ ok: true });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
   }
 );
 
@@ -254,7 +460,7 @@ suggestionsRoutes.put(
 
       // garante que suggestion existe
       const sRes = await client.query(
-        `SELECT upvotes_count, downvotes_count
+        `SELECT upvotes_count, downvotes_count, merged_into_id
          FROM suggestions
          WHERE project_id = $1 AND id = $2
          FOR UPDATE`,
@@ -264,6 +470,13 @@ suggestionsRoutes.put(
         await client.query("ROLLBACK");
         return res.status(404).json({ error: "Sugestão não encontrada" });
       }
+      if (sRes.rows[0].merged_into_id) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({
+          error: "Sugestão foi mesclada em outra",
+          merged_into_id: sRes.rows[0].merged_into_id,
+        });
+      }
 
       // voto anterior (se houver)
       const oldRes = await client.query(
@@ -285,28 +498,24 @@ suggestionsRoutes.put(
       );
 
       // recalcular contadores: mais simples e correto
-      const aggRes = await client.query(
-        `SELECT
-            SUM(CASE WHEN vote = 1 THEN 1 ELSE 0 END)::int AS up,
-            SUM(CASE WHEN vote = -1 THEN 1 ELSE 0 END)::int AS down
-         FROM suggestion_votes
-         WHERE project_id = $1 AND suggestion_id = $2`,
-        [projectId, suggestionId]
-      );
+      const { up, down, score } = await recalcVoteCounters(client, projectId, suggestionId);
 
-      const up = aggRes.rows[0]?.up ?? 0;
-      const down = aggRes.rows[0]?.down ?? 0;
-      const score = up - down;
+      await publishEvent(client, projectId, "suggestion.voted", {
+        suggestion_id: suggestionId,
+        score,
+        likes: up,
+        dislikes: down,
+      });
 
-      await client.query(
-        `UPDATE suggestions
-         SET upvotes_count = $1,
-             downvotes_count = $2,
-             score = $3,
-             updated_at = now()
-         WHERE project_id = $4 AND id = $5`,
-        [up, down, score, projectId, suggestionId]
-      );
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "suggestion.vote",
+        entityType: "suggestion",
+        entityId: suggestionId,
+        before: { vote: oldVote },
+        after: { vote: body.vote },
+      });
 
       await client.query("COMMIT");
 
@@ -342,7 +551,7 @@ suggestionsRoutes.post(
       await client.query("BEGIN");
 
       const sRes = await client.query(
-        `SELECT id, title, description, backlog_item_id
+        `SELECT id, title, description, status, backlog_item_id
          FROM suggestions
          WHERE project_id = $1 AND id = $2
          FOR UPDATE`,
@@ -358,26 +567,63 @@ suggestionsRoutes.post(
         return res.status(409).json({ error: "Sugestão já está no backlog" });
       }
 
-      // cria backlog item (1:1)
+      // cria backlog item (1:1), no topo da ordenação manual
+      const rank = await topRank(client, projectId);
       const bRes = await client.query(
-        `INSERT INTO backlog_items (project_id, origin_type, suggestion_id, title, summary, created_by_user_id)
-         VALUES ($1, 'suggestion', $2, $3, $4, $5)
-         RETURNING id, project_id, suggestion_id, title, summary, stage, priority, progress_percent, created_at`,
-        [projectId, suggestionId, sug.title, sug.description, userId]
+        `INSERT INTO backlog_items (project_id, origin_type, suggestion_id, title, summary, rank, created_by_user_id)
+         VALUES ($1, 'suggestion', $2, $3, $4, $5, $6)
+         RETURNING id, project_id, suggestion_id, title, summary, stage, priority, progress_percent, rank, created_at`,
+        [projectId, suggestionId, sug.title, sug.description, rank, userId]
       );
       const backlog = bRes.rows[0];
+      await recordStageTransition(client, {
+        projectId,
+        backlogItemId: backlog.id,
+        from: null,
+        to: backlog.stage,
+        userId,
+      });
 
       // atualiza suggestion
+      await changeSuggestionStatus(client, { projectId, suggestionId, to: "in_progress", userId });
+
       await client.query(
         `UPDATE suggestions
-         SET status = 'in_progress',
-             backlog_item_id = $1,
+         SET backlog_item_id = $1,
              locked_at = now(),
              updated_at = now()
          WHERE project_id = $2 AND id = $3`,
         [backlog.id, projectId, suggestionId]
       );
 
+      await publishEvent(client, projectId, "suggestion.pulled", {
+        suggestion_id: suggestionId,
+        backlog_item_id: backlog.id,
+        status: "in_progress",
+      });
+      await enqueueWebhooks(client, projectId, "suggestion.pulled", {
+        suggestion_id: suggestionId,
+        suggestion_title: sug.title,
+        backlog_item: backlog,
+      });
+      await notifySuggestionAuthor(client, {
+        projectId,
+        suggestionId,
+        type: "suggestion.pulled",
+        actorUserId: userId,
+        data: { backlog_item_id: backlog.id },
+      });
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "suggestion.pull_to_backlog",
+        entityType: "suggestion",
+        entityId: suggestionId,
+        before: { status: sug.status, backlog_item_id: null },
+        after: { status: "in_progress", backlog_item_id: backlog.id },
+      });
+
       await client.query("COMMIT");
       return res.status(201).json(backlog);
     } catch (e) {
@@ -388,3 +634,243 @@ suggestionsRoutes.post(
     }
   }
 );
+
+/**
+ * Triagem (developer/manager/admin):
+ * - reject: open -> rejected (motivo obrigatório)
+ * - done: open/in_progress -> done
+ * - reopen: rejected/done -> open (ou in_progress se ainda estiver no backlog)
+ * Vinculada a backlog item: done exige o item em done e reopen o item fora de done (409).
+ * Toda transição fica em suggestion_status_history.
+ */
+type TriageAction = "reject" | "done" | "reopen";
+
+const TRIAGE_FROM: Record<TriageAction, SuggestionStatus[]> = {
+  reject: ["open"],
+  done: ["open", "in_progress"],
+  reopen: ["rejected", "done"],
+};
+
+function triageHandler(action: TriageAction) {
+  return async (req: Request, res: Response) => {
+    const { projectId, suggestionId } = req.params;
+    const userId = req.auth!.userId;
+
+    const body = z.object({
+      reason: action === "reject"
+        ? z.string().trim().min(3).max(2_000)
+        : z.string().trim().max(2_000).optional(),
+    }).parse(req.body ?? {});
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      // mesma ordem de lock das rotas de backlog (item antes da sugestão): lê o vínculo sem lock,
+      // trava o item e só então a sugestão
+      const linkRes = await client.query(
+        `SELECT backlog_item_id FROM suggestions WHERE project_id = $1 AND id = $2`,
+        [projectId, suggestionId]
+      );
+      const linkedItemId = (linkRes.rows[0]?.backlog_item_id ?? null) as string | null;
+
+      let stage: BacklogStage | undefined;
+      if (linkedItemId) {
+        const itemRes = await client.query(
+          `SELECT stage FROM backlog_items WHERE project_id = $1 AND id = $2 FOR UPDATE`,
+          [projectId, linkedItemId]
+        );
+        stage = itemRes.rows[0]?.stage;
+      }
+
+      const sRes = await client.query(
+        `SELECT status, backlog_item_id
+         FROM suggestions
+         WHERE project_id = $1 AND id = $2
+         FOR UPDATE`,
+        [projectId, suggestionId]
+      );
+      const sug = sRes.rows[0];
+      if (!sug) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Sugestão não encontrada" });
+      }
+      if ((sug.backlog_item_id ?? null) !== linkedItemId) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "Sugestão foi alterada ao mesmo tempo, tente novamente" });
+      }
+      if (!TRIAGE_FROM[action].includes(sug.status)) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: `Não é possível aplicar "${action}" a uma sugestão com status ${sug.status}` });
+      }
+
+      // vinculada ao backlog: o status segue o estágio do item (mirrorStageOnSuggestion)
+      if (linkedItemId && action !== "reject") {
+        const itemDone = stage === "done";
+        if ((action === "done" && !itemDone) || (action === "reopen" && itemDone)) {
+          await client.query("ROLLBACK");
+          return res.status(409).json({
+            error: `Sugestão vinculada a um item de backlog em ${stage}: mova o item pelo backlog`,
+            backlog_item_id: linkedItemId,
+          });
+        }
+      }
+
+      const to: SuggestionStatus =
+        action === "reject" ? "rejected"
+        : action === "done" ? "done"
+        : sug.backlog_item_id ? "in_progress" : "open";
+
+      await changeSuggestionStatus(client, {
+        projectId,
+        suggestionId,
+        to,
+        userId,
+        reason: body.reason || null,
+      });
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: `suggestion.${action}`,
+        entityType: "suggestion",
+        entityId: suggestionId,
+        before: { status: sug.status },
+        after: { status: to, reason: body.reason || null },
+      });
+
+      await client.query("COMMIT");
+      return res.json({ suggestion_id: suggestionId, status: to });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  };
+}
+
+suggestionsRoutes.post(
+  "/projects/:projectId/suggestions/:suggestionId/reject",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  triageHandler("reject")
+);
+
+suggestionsRoutes.post(
+  "/projects/:projectId/suggestions/:suggestionId/done",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  triageHandler("done")
+);
+
+suggestionsRoutes.post(
+  "/projects/:projectId/suggestions/:suggestionId/reopen",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  triageHandler("reopen")
+);
+
+/**
+ * POST /api/projects/:projectId/suggestions/:suggestionId/merge
+ * body: { into_suggestion_id }
+ * Mescla a sugestão (origem) em outra (destino), developer/manager/admin:
+ * - votos migram sem contar o mesmo usuário duas vezes; contadores recalculados
+ * - origem fica rejected com merged_into_id apontando para o destino (redirect)
+ */
+suggestionsRoutes.post(
+  "/projects/:projectId/suggestions/:suggestionId/merge",
+  authRequired,
+  requireProjectMembership,
+  requireRole(["developer", "manager", "admin"]),
+  async (req, res) => {
+    const { projectId, suggestionId } = req.params;
+    const userId = req.auth!.userId;
+
+    const body = z.object({
+      into_suggestion_id: z.string().uuid(),
+    }).parse(req.body);
+
+    const targetId = body.into_suggestion_id;
+    if (targetId === suggestionId) {
+      return res.status(400).json({ error: "Não é possível mesclar uma sugestão nela mesma" });
+    }
+
+    const client = await pool.connect();
+    try {
+      await client.query("BEGIN");
+
+      // trava as duas em ordem fixa (evita deadlock com merge inverso)
+      const lockRes = await client.query(
+        `SELECT id, title, status, backlog_item_id, merged_into_id, score
+         FROM suggestions
+         WHERE project_id = $1 AND id = ANY($2::uuid[])
+         ORDER BY id
+         FOR UPDATE`,
+        [projectId, [suggestionId, targetId]]
+      );
+      const source = lockRes.rows.find((r) => r.id === suggestionId);
+      const target = lockRes.rows.find((r) => r.id === targetId);
+
+      if (!source || !target) {
+        await client.query("ROLLBACK");
+        return res.status(404).json({ error: "Sugestão não encontrada" });
+      }
+      if (source.merged_into_id || target.merged_into_id) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "Sugestão já foi mesclada" });
+      }
+      if (source.backlog_item_id) {
+        await client.query("ROLLBACK");
+        return res.status(409).json({ error: "Sugestão já foi puxada para desenvolvimento" });
+      }
+
+      const movedVotes = await moveVotes(client, projectId, suggestionId, targetId);
+      const targetCounters = await recalcVoteCounters(client, projectId, targetId);
+      await recalcVoteCounters(client, projectId, suggestionId);
+
+      await changeSuggestionStatus(client, {
+        projectId,
+        suggestionId,
+        to: "rejected",
+        userId,
+        reason: `Mesclada em "${target.title}"`,
+      });
+
+      await client.query(
+        `UPDATE suggestions
+         SET merged_into_id = $1, updated_at = now()
+         WHERE project_id = $2 AND id = $3`,
+        [targetId, projectId, suggestionId]
+      );
+
+      await recordAudit(client, {
+        projectId,
+        actorUserId: userId,
+        action: "suggestion.merge",
+        entityType: "suggestion",
+        entityId: suggestionId,
+        before: { status: source.status, score: source.score, target_score: target.score },
+        after: { status: "rejected", merged_into_id: targetId, target_score: targetCounters.score },
+      });
+
+      await client.query("COMMIT");
+      return res.json({
+        suggestion_id: suggestionId,
+        merged_into_id: targetId,
+        moved_votes: movedVotes,
+        score: targetCounters.score,
+        likes: targetCounters.up,
+        dislikes: targetCounters.down,
+      });
+    } catch (e) {
+      await client.query("ROLLBACK");
+      throw e;
+    } finally {
+      client.release();
+    }
+  }
+);
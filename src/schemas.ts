@@ -0,0 +1,21 @@
+import { z } from "zod";
+
+/**
+ * Schemas compartilhados entre rotas (admin e self-service).
+ */
+export const NameSchema = z.string().min(2).max(120);
+export const EmailSchema = z.string().email().max(200);
+export const PasswordSchema = z.string().min(6).max(200);
+export const RoleSchema = z.enum(["user", "manager", "developer", "admin"]);
+// formato do código; se existe/está ativo no catálogo é checado no banco (stacks.service)
+export const StackCodeSchema = z.string().trim().toLowerCase().regex(/^[a-z][a-z0-9_-]{1,39}$/, "Código de stack inválido");
+export const StackSchema = z.array(StackCodeSchema).default([]);
+export const LanguageSchema = z.enum(["pt-BR", "en-US", "es-ES"]);
+// data de calendário YYYY-MM-DD que existe de fato (2024-02-31 e 2024-13-01 não passam)
+export const DateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Data no formato YYYY-MM-DD")
+  .refine((v) => {
+    const d = new Date(`${v}T00:00:00Z`);
+    return !Number.isNaN(d.getTime()) && d.toISOString().slice(0, 10) === v;
+  }, "Data inválida");
@@ -1,11 +1,13 @@
 import { createApp } from "./app";
 import { env } from "./env";
 import { dbHealthcheck } from "./db";
+import { startWebhookWorker } from "./services/webhooks.service";
 
 async function main() {
   await dbHealthcheck();
 
   const app = createApp();
+  startWebhookWorker();
   app.listen(env.PORT, () => {
     console.log(`API rodando em http://localhost:${env.PORT}`);
   });
@@ -0,0 +1,43 @@
+import { PoolClient } from "pg";
+
+export type AuditEntity =
+  | "suggestion"
+  | "backlog_item"
+  | "backlog_task"
+  | "comment"
+  | "user"
+  | "project"
+  | "project_member"
+  | "milestone"
+  | "webhook"
+  | "stack";
+
+export type AuditEvent = {
+  projectId?: string | null;
+  actorUserId: string;
+  action: string; // ex.: "backlog_task.update"
+  entityType: AuditEntity;
+  entityId: string;
+  before?: unknown;
+  after?: unknown;
+};
+
+/**
+ * Registra um evento de auditoria.
+ * Sempre recebe o client da transação da mudança: se a mudança der rollback, o evento também some.
+ */
+export async function recordAudit(client: PoolClient, e: AuditEvent) {
+  await client.query(
+    `INSERT INTO audit_events (project_id, actor_user_id, action, entity_type, entity_id, before, after)
+     VALUES ($1, $2, $3, $4, $5, $6, $7)`,
+    [
+      e.projectId ?? null,
+      e.actorUserId,
+      e.action,
+      e.entityType,
+      e.entityId,
+      e.before === undefined ? null : JSON.stringify(e.before),
+      e.after === undefined ? null : JSON.stringify(e.after),
+    ]
+  );
+}
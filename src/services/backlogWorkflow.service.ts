@@ -0,0 +1,90 @@
+import { PoolClient } from "pg";
+import { BacklogStage, Role } from "../types";
+import { changeSuggestionStatus } from "./suggestionStatus.service";
+
+/**
+ * Máquina de estados do backlog: para cada estágio de origem, quais estágios
+ * de destino são permitidos e por quais roles.
+ * Para mudar o fluxo, basta ajustar este mapa.
+ */
+export const STAGE_TRANSITIONS: Record<BacklogStage, Partial<Record<BacklogStage, Role[]>>> = {
+  todo: {
+    doing: ["developer", "admin"],
+    blocked: ["developer", "manager", "admin"],
+  },
+  doing: {
+    todo: ["developer", "admin"],
+    review: ["developer", "admin"],
+    blocked: ["developer", "manager", "admin"],
+  },
+  review: {
+    doing: ["developer", "manager", "admin"],
+    done: ["manager", "admin"],
+    blocked: ["developer", "manager", "admin"],
+  },
+  done: {
+    doing: ["manager", "admin"],
+  },
+  blocked: {
+    todo: ["developer", "manager", "admin"],
+    doing: ["developer", "admin"],
+  },
+};
+
+export function canTransition(from: BacklogStage, to: BacklogStage, role: Role): boolean {
+  if (from === to) return true;
+  return STAGE_TRANSITIONS[from]?.[to]?.includes(role) ?? false;
+}
+
+/**
+ * Estágios para os quais o role pode mover a partir de `from`.
+ */
+export function allowedTransitions(from: BacklogStage, role: Role): BacklogStage[] {
+  const targets = STAGE_TRANSITIONS[from] ?? {};
+  return (Object.keys(targets) as BacklogStage[]).filter((to) => targets[to]!.includes(role));
+}
+
+/**
+ * Espelha o estágio do backlog item na sugestão vinculada (dentro da transação do chamador):
+ * - entrou em done: sugestão vira done
+ * - saiu de done: sugestão volta para in_progress
+ */
+export async function mirrorStageOnSuggestion(
+  client: PoolClient,
+  projectId: string,
+  suggestionId: string | null,
+  from: BacklogStage,
+  to: BacklogStage,
+  userId: string
+) {
+  if (!suggestionId || from === to) return;
+
+  if (to === "done") {
+    await changeSuggestionStatus(client, { projectId, suggestionId, to: "done", userId });
+  } else if (from === "done") {
+    await changeSuggestionStatus(client, { projectId, suggestionId, to: "in_progress", userId });
+  }
+}
+
+/**
+ * Grava a transição no histórico datado (dentro da transação do chamador).
+ * `from` = null na criação do item.
+ */
+export async function recordStageTransition(
+  client: PoolClient,
+  params: {
+    projectId: string;
+    backlogItemId: string;
+    from: BacklogStage | null;
+    to: BacklogStage;
+    userId: string | null;
+  }
+) {
+  if (params.from === params.to) return;
+
+  await client.query(
+    `INSERT INTO backlog_stage_history (project_id, backlog_item_id, from_stage, to_stage, changed_by_user_id)
+     VALUES ($1, $2, $3, $4, $5)`,
+    [params.projectId, params.backlogItemId, params.from, params.to, params.userId]
+  );
+}
@@ -0,0 +1,159 @@
+import { Client, Pool, PoolClient } from "pg";
+import { pool } from "../db";
+import { env } from "../env";
+import { Role } from "../types";
+
+type Db = Pool | PoolClient;
+
+export type ProjectEventType =
+  | "suggestion.created"
+  | "suggestion.voted"
+  | "suggestion.pulled"
+  | "backlog_item.stage_changed"
+  | "task.created"
+  | "task.updated"
+  | "task.deleted"
+  | "project.progress_recalculated";
+
+export type ProjectEvent = {
+  id: string;
+  project_id: string;
+  type: ProjectEventType;
+  data: Record<string, unknown>;
+  created_at: string;
+};
+
+const CHANNEL = "project_events";
+
+/**
+ * Registra o evento e avisa as outras instâncias via NOTIFY.
+ * Chamar dentro da transação da mudança: o NOTIFY só sai no COMMIT (e some no ROLLBACK).
+ */
+export async function publishEvent(
+  db: Db,
+  projectId: string,
+  type: ProjectEventType,
+  data: Record<string, unknown>
+) {
+  const { rows } = await db.query(
+    `INSERT INTO project_events (project_id, type, data)
+     VALUES ($1, $2, $3)
+     RETURNING id`,
+    [projectId, type, JSON.stringify(data)]
+  );
+  const id = String(rows[0].id);
+
+  // payload do NOTIFY tem limite de 8000 bytes: manda só a referência
+  await db.query(`SELECT pg_notify($1, $2)`, [CHANNEL, JSON.stringify({ id, project_id: projectId })]);
+
+  return id;
+}
+
+export const REPLAY_PAGE_SIZE = 500;
+
+/**
+ * Eventos do projeto depois de `afterId` (retomada via Last-Event-ID), uma página por chamada.
+ * Limite conhecido: ids vêm de bigserial e podem commitar fora de ordem; um evento cuja
+ * transação commita depois de um id maior já entregue não é reenviado numa retomada.
+ * (Ao vivo ele chega normalmente, via NOTIFY no commit.)
+ */
+export async function listEventsSince(projectId: string, afterId: string, limit = REPLAY_PAGE_SIZE) {
+  const { rows } = await pool.query(
+    `SELECT id::text as id, project_id, type, data, created_at
+     FROM project_events
+     WHERE project_id = $1 AND id > $2
+     ORDER BY id ASC
+     LIMIT $3`,
+    [projectId, afterId, limit]
+  );
+  return rows as ProjectEvent[];
+}
+
+/**
+ * Eventos de backlog/tasks seguem a mesma regra das rotas: role user não vê.
+ */
+export function canSeeEvent(type: ProjectEventType, role: Role) {
+  // progresso também aparece nas sugestões: todo membro precisa saber que recarregar
+  if (type.startsWith("suggestion.") || type === "project.progress_recalculated") return true;
+  return role === "developer" || role === "manager" || role === "admin";
+}
+
+type Listener = (event: ProjectEvent) => void;
+
+const listeners = new Map<string, Set<Listener>>();
+let listenClient: Client | null = null;
+let connecting: Promise<void> | null = null;
+
+async function handleNotification(payload: string | undefined) {
+  if (!payload) return;
+  const { id, project_id } = JSON.parse(payload) as { id: string; project_id: string };
+
+  const subs = listeners.get(project_id);
+  if (!subs || subs.size === 0) return;
+
+  const { rows } = await pool.query(
+    `SELECT id::text as id, project_id, type, data, created_at
+     FROM project_events
+     WHERE id = $1`,
+    [id]
+  );
+  const event = rows[0] as ProjectEvent | undefined;
+  if (!event) return;
+
+  for (const fn of subs) fn(event);
+}
+
+/**
+ * Conexão dedicada (fora do pool) com LISTEN; reabre sozinha se cair.
+ */
+function ensureListening(): Promise<void> {
+  if (listenClient) return Promise.resolve();
+  if (connecting) return connecting;
+
+  connecting = (async () => {
+    const client = new Client({ connectionString: env.DATABASE_URL });
+    client.on("notification", (msg) => {
+      handleNotification(msg.payload).catch((e) => console.error("[events] notificação", e));
+    });
+    client.on("error", (e) => {
+      console.error("[events] conexão LISTEN caiu", e);
+      listenClient = null;
+      client.end().catch(() => undefined);
+      if (listeners.size > 0) setTimeout(() => ensureListening().catch(() => undefined), 1_000);
+    });
+
+    await client.connect();
+    await client.query(`LISTEN ${CHANNEL}`);
+    listenClient = client;
+  })().finally(() => {
+    connecting = null;
+  });
+
+  return connecting;
+}
+
+/**
+ * Inscreve um ouvinte nos eventos do projeto. Retorna a função para cancelar.
+ */
+export async function subscribe(projectId: string, fn: Listener) {
+  let subs = listeners.get(projectId);
+  if (!subs) {
+    subs = new Set();
+    listeners.set(projectId, subs);
+  }
+  subs.add(fn);
+
+  try {
+    await ensureListening();
+  } catch (e) {
+    unsubscribe();
+    throw e;
+  }
+
+  function unsubscribe() {
+    subs!.delete(fn);
+    if (subs!.size === 0) listeners.delete(projectId);
+  }
+
+  return unsubscribe;
+}
@@ -0,0 +1,170 @@
+import { once } from "events";
+import { Response } from "express";
+import { z } from "zod";
+import { pool } from "../db";
+import { csvRow } from "../csv";
+
+/**
+ * Exportação (CSV / Markdown) das listas de sugestões e backlog.
+ * Lê em lotes pelo mesmo keyset da listagem e escreve conforme chega,
+ * então projeto grande não fica inteiro em memória.
+ */
+export const ExportFormatSchema = z.enum(["csv", "md"]).default("csv");
+export type ExportFormat = z.infer<typeof ExportFormatSchema>;
+
+export const EXPORT_BATCH_SIZE = 500;
+
+export type ExportColumn<T> = { header: string; value: (row: T) => unknown };
+
+export type TaskCounts = Map<string, Map<string, { done: number; total: number }>>;
+
+/**
+ * Stacks que aparecem nas tasks do projeto (define as colunas fixas do arquivo).
+ */
+export async function getProjectTaskStacks(projectId: string): Promise<string[]> {
+  const { rows } = await pool.query(
+    `SELECT ds.code
+     FROM developer_stacks ds
+     WHERE EXISTS (SELECT 1 FROM backlog_tasks t WHERE t.project_id = $1 AND t.stack_id = ds.id)
+     ORDER BY ds.id`,
+    [projectId]
+  );
+  return rows.map((r) => r.code as string);
+}
+
+/**
+ * Tasks feitas/total por item e stack (só dos itens do lote).
+ */
+export async function getTaskCounts(projectId: string, backlogItemIds: string[]): Promise<TaskCounts> {
+  const counts: TaskCounts = new Map();
+  if (backlogItemIds.length === 0) return counts;
+
+  const { rows } = await pool.query(
+    `SELECT t.backlog_item_id, ds.code,
+            COUNT(*)::int as total,
+            COUNT(*) FILTER (WHERE t.is_done)::int as done
+     FROM backlog_tasks t
+     JOIN developer_stacks ds ON ds.id = t.stack_id
+     WHERE t.project_id = $1 AND t.backlog_item_id = ANY($2::uuid[])
+     GROUP BY t.backlog_item_id, ds.code`,
+    [projectId, backlogItemIds]
+  );
+  for (const r of rows) {
+    if (!counts.has(r.backlog_item_id)) counts.set(r.backlog_item_id, new Map());
+    counts.get(r.backlog_item_id)!.set(r.code, { done: r.done, total: r.total });
+  }
+  return counts;
+}
+
+/**
+ * Colunas de tasks por stack. No CSV vão separadas (feitas / total) para a planilha
+ * não interpretar "3/5" como data; no Markdown ficam juntas.
+ */
+export function taskStackColumns<T>(
+  stacks: string[],
+  format: ExportFormat,
+  counts: () => TaskCounts,
+  itemId: (row: T) => string | null
+): ExportColumn<T>[] {
+  const get = (row: T, code: string) => {
+    const id = itemId(row);
+    return (id && counts().get(id)?.get(code)) || { done: 0, total: 0 };
+  };
+
+  if (format === "md") {
+    return stacks.map((code) => ({
+      header: `tasks ${code}`,
+      value: (row: T) => {
+        const c = get(row, code);
+        return c.total > 0 ? `${c.done}/${c.total}` : "";
+      },
+    }));
+  }
+
+  return stacks.flatMap((code) => [
+    { header: `tasks_${code}_done`, value: (row: T) => get(row, code).done },
+    { header: `tasks_${code}_total`, value: (row: T) => get(row, code).total },
+  ]);
+}
+
+function mdCell(value: unknown) {
+  if (value === null || value === undefined) return "";
+  const s = value instanceof Date ? value.toISOString() : String(value);
+  return s.replace(/\\/g, "\\\\").replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+function mdRow(values: unknown[]) {
+  return `| ${values.map(mdCell).join(" | ")} |\n`;
+}
+
+/**
+ * Escreve o arquivo lote a lote.
+ * `fetchBatch(cursor)` devolve até EXPORT_BATCH_SIZE + 1 linhas (mesma convenção do paginate)
+ * e `beforeBatch` carrega dados auxiliares do lote (tasks, autores) antes de escrever.
+ */
+export async function writeExport<T extends { id: string; sort_key: string }>(
+  res: Response,
+  opts: {
+    format: ExportFormat;
+    filename: string;
+    title: string;
+    columns: ExportColumn<T>[];
+    fetchBatch: (cursor: [string, string] | null) => Promise<T[]>;
+    beforeBatch?: (rows: T[]) => Promise<void>;
+  }
+) {
+  const { format, columns } = opts;
+
+  const write = async (chunk: string) => {
+    // "close" também libera: cliente que cai no meio não deixa a rota presa esperando drain
+    if (!res.write(chunk)) await Promise.race([once(res, "drain"), once(res, "close")]);
+  };
+
+  res.status(200);
+  res.setHeader(
+    "Content-Type",
+    format === "csv" ? "text/csv; charset=utf-8" : "text/markdown; charset=utf-8"
+  );
+  res.setHeader("Content-Disposition", `attachment; filename="${opts.filename}.${format}"`);
+
+  try {
+    if (format === "csv") {
+      // BOM: Excel abre acentos certo
+      await write("\uFEFF" + csvRow(columns.map((c) => c.header)));
+    } else {
+      await write(`# ${mdCell(opts.title)}\n\nGerado em ${new Date().toISOString()}\n\n`);
+      await write(mdRow(columns.map((c) => c.header)));
+      await write(`|${columns.map(() => " --- |").join("")}\n`);
+    }
+
+    let cursor: [string, string] | null = null;
+    for (;;) {
+      if (res.destroyed) return; // cliente desistiu
+
+      const rows = await opts.fetchBatch(cursor);
+      const batch = rows.slice(0, EXPORT_BATCH_SIZE);
+      if (batch.length > 0) {
+        if (opts.beforeBatch) await opts.beforeBatch(batch);
+
+        const line = format === "csv" ? csvRow : mdRow;
+        await write(batch.map((row) => line(columns.map((c) => c.value(row)))).join(""));
+      }
+
+      if (rows.length <= EXPORT_BATCH_SIZE) break;
+      const last = batch[batch.length - 1];
+      cursor = [last.sort_key, last.id];
+    }
+
+    res.end();
+  } catch (e) {
+    // cabeçalho já foi: não dá para responder 500, só cortar a conexão
+    if (!res.headersSent) throw e;
+    console.error(e);
+    res.destroy(e as Error);
+  }
+}
+
+export function exportFilename(prefix: string, projectName: string) {
+  const slug = projectName.toLowerCase().normalize("NFD").replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "");
+  return `${prefix}-${slug || "projeto"}-${new Date().toISOString().slice(0, 10)}`;
+}
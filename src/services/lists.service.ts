@@ -0,0 +1,144 @@
+import { z } from "zod";
+import { csvEnum, CursorSchema, cursorFits, encodeCursor, keyset, SortColumn } from "../pagination";
+
+/**
+ * Filtros/ordenação/paginação das listas de sugestões e backlog.
+ * Mesmos schemas servem para a listagem e para as exportações.
+ */
+export const SuggestionListQuerySchema = z.object({
+  status: csvEnum(["open", "in_progress", "done", "rejected"]).optional(),
+  sort: z.enum(["created_at", "score", "votes", "progress"]).default("created_at"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: CursorSchema.optional(),
+});
+
+export const BacklogListQuerySchema = z.object({
+  stage: csvEnum(["todo", "doing", "review", "done", "blocked"]).optional(),
+  priority: csvEnum(["low", "medium", "high", "urgent"]).optional(),
+  milestone_id: z.union([z.string().uuid(), z.literal("none")]).optional(),
+  sort: z.enum(["created_at", "priority", "progress", "score", "rank"]).default("created_at"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  limit: z.coerce.number().int().min(1).max(100).optional(),
+  cursor: CursorSchema.optional(),
+});
+
+export type SuggestionListQuery = z.infer<typeof SuggestionListQuerySchema>;
+export type BacklogListQuery = z.infer<typeof BacklogListQuerySchema>;
+
+const SUGGESTION_SORTS: Record<SuggestionListQuery["sort"], SortColumn> = {
+  created_at: { expr: "s.created_at", cast: "timestamptz" },
+  score: { expr: "s.score", cast: "int" },
+  votes: { expr: "(s.upvotes_count + s.downvotes_count)", cast: "int" },
+  progress: { expr: "s.progress_percent", cast: "int" },
+};
+
+const BACKLOG_SORTS: Record<BacklogListQuery["sort"], SortColumn> = {
+  created_at: { expr: "b.created_at", cast: "timestamptz" },
+  priority: {
+    expr: "(CASE b.priority WHEN 'urgent' THEN 4 WHEN 'high' THEN 3 WHEN 'medium' THEN 2 ELSE 1 END)",
+    cast: "int",
+  },
+  progress: { expr: "b.progress_percent", cast: "int" },
+  score: { expr: "COALESCE(s.score, 0)", cast: "int" },
+  rank: { expr: "b.rank", cast: "text" },
+};
+
+/**
+ * Cursor compatível com a ordenação pedida (sem cursor = válido).
+ */
+export function suggestionCursorFits(q: SuggestionListQuery) {
+  return !q.cursor || cursorFits(q.cursor, SUGGESTION_SORTS[q.sort].cast);
+}
+
+export function backlogCursorFits(q: BacklogListQuery) {
+  return !q.cursor || cursorFits(q.cursor, BACKLOG_SORTS[q.sort].cast);
+}
+
+/**
+ * SQL da lista de sugestões. Com `limit`, busca limit+1 para saber se há próxima página.
+ */
+export function buildSuggestionListSql(projectId: string, q: SuggestionListQuery) {
+  const params: unknown[] = [projectId];
+  const where = ["s.project_id = $1"];
+
+  if (q.status) {
+    params.push(q.status);
+    where.push(`s.status = ANY($${params.length}::text[])`);
+  }
+
+  const ks = keyset(SUGGESTION_SORTS[q.sort], "s.id", q.order, q.cursor ?? null, params);
+  if (ks.where) where.push(ks.where);
+
+  let limitSql = "";
+  if (q.limit) {
+    params.push(q.limit + 1);
+    limitSql = `LIMIT $${params.length}`;
+  }
+
+  const text =
+    `SELECT s.id, s.project_id, s.title, s.description, s.status, s.progress_percent,
+            s.score, s.upvotes_count, s.downvotes_count, s.backlog_item_id, s.created_at,
+            u.id as author_id, u.name as author_name, ${ks.sortKeySelect}
+     FROM suggestions s
+     JOIN users u ON u.id = s.created_by_user_id
+     WHERE ${where.join(" AND ")}
+     ORDER BY ${ks.orderBy}
+     ${limitSql}`;
+
+  return { text, values: params };
+}
+
+/**
+ * SQL da lista de backlog (itens ativos). Score vem da sugestão vinculada (0 se manual).
+ */
+export function buildBacklogListSql(projectId: string, q: BacklogListQuery) {
+  const params: unknown[] = [projectId];
+  const where = ["b.project_id = $1", "b.is_active = true"];
+
+  if (q.stage) {
+    params.push(q.stage);
+    where.push(`b.stage = ANY($${params.length}::text[])`);
+  }
+  if (q.priority) {
+    params.push(q.priority);
+    where.push(`b.priority = ANY($${params.length}::text[])`);
+  }
+  if (q.milestone_id === "none") {
+    where.push("b.milestone_id IS NULL");
+  } else if (q.milestone_id) {
+    params.push(q.milestone_id);
+    where.push(`b.milestone_id = $${params.length}`);
+  }
+
+  const ks = keyset(BACKLOG_SORTS[q.sort], "b.id", q.order, q.cursor ?? null, params);
+  if (ks.where) where.push(ks.where);
+
+  let limitSql = "";
+  if (q.limit) {
+    params.push(q.limit + 1);
+    limitSql = `LIMIT $${params.length}`;
+  }
+
+  const text =
+    `SELECT b.id, b.project_id, b.origin_type, b.suggestion_id, b.title, b.summary,
+            b.stage, b.priority, b.progress_percent, b.milestone_id, b.rank, b.created_at,
+            COALESCE(s.score, 0) as score, ${ks.sortKeySelect}
+     FROM backlog_items b
+     LEFT JOIN suggestions s ON s.id = b.suggestion_id
+     WHERE ${where.join(" AND ")}
+     ORDER BY ${ks.orderBy}
+     ${limitSql}`;
+
+  return { text, values: params };
+}
+
+/**
+ * Corta a página (limit+1) e calcula next_cursor.
+ */
+export function paginate<T extends { id: string; sort_key: string }>(rows: T[], limit?: number) {
+  if (!limit || rows.length <= limit) return { page: rows, next_cursor: null as string | null };
+  const page = rows.slice(0, limit);
+  const last = page[page.length - 1];
+  return { page, next_cursor: encodeCursor(last.sort_key, last.id) };
+}
@@ -0,0 +1,44 @@
+import { Pool, PoolClient } from "pg";
+import { env } from "../env";
+
+type Db = Pool | PoolClient;
+
+export type MailMessage = {
+  from: string;
+  to: string;
+  subject: string;
+  text: string;
+};
+
+/**
+ * Transporte de e-mail. Para usar SMTP/API externa, implemente esta interface
+ * e registre com setMailTransport() no bootstrap.
+ * `db` é a conexão do chamador (em geral a transação aberta): o e-mail só deve
+ * sair se ela fizer COMMIT.
+ */
+export interface MailTransport {
+  send(db: Db, message: MailMessage): Promise<void>;
+}
+
+/**
+ * Padrão: grava na tabela mail_outbox (funciona sem servidor SMTP), na mesma transação.
+ */
+export class OutboxMailTransport implements MailTransport {
+  async send(db: Db, message: MailMessage) {
+    await db.query(
+      `INSERT INTO mail_outbox (from_email, to_email, subject, body_text)
+       VALUES ($1, $2, $3, $4)`,
+      [message.from, message.to, message.subject, message.text]
+    );
+  }
+}
+
+let transport: MailTransport = new OutboxMailTransport();
+
+export function setMailTransport(next: MailTransport) {
+  transport = next;
+}
+
+export async function sendMail(db: Db, message: Omit<MailMessage, "from"> & { from?: string }) {
+  await transport.send(db, { ...message, from: message.from ?? env.MAIL_FROM });
+}
@@ -0,0 +1,203 @@
+import { pool } from "../db";
+import { BacklogStage } from "../types";
+
+/**
+ * Métricas do projeto num intervalo [from, to] (datas inclusivas).
+ * - entrada/pull/tempos: sugestões criadas no intervalo
+ * - tasks: concluídas = done_at no intervalo; abertas = ainda abertas, criadas até `to`
+ * - estágios: itens ativos criados até `to`, no estágio atual
+ * Tempos em horas (mediana).
+ */
+export type MetricsRange = { from: string; to: string };
+
+const STAGES: BacklogStage[] = ["todo", "doing", "review", "done", "blocked"];
+
+const IN_RANGE = (col: string) => `${col} >= $2::date AND ${col} < $3::date + 1`;
+
+export async function getProjectMetrics(projectId: string, range: MetricsRange) {
+  const params = [projectId, range.from, range.to];
+
+  const [intake, funnel, leadTimes, tasks, stages] = await Promise.all([
+    // semanas sem sugestão aparecem com 0
+    pool.query(
+      `SELECT w.week::date::text as week_start, COUNT(s.id)::int as count
+       FROM generate_series(date_trunc('week', $2::date), date_trunc('week', $3::date), interval '1 week') AS w(week)
+       LEFT JOIN suggestions s
+         ON s.project_id = $1
+        AND s.created_at >= w.week AND s.created_at < w.week + interval '1 week'
+        AND ${IN_RANGE("s.created_at")}
+       GROUP BY w.week
+       ORDER BY w.week`,
+      params
+    ),
+    pool.query(
+      `SELECT COUNT(*)::int as total,
+              (COUNT(*) FILTER (WHERE s.locked_at IS NOT NULL OR s.backlog_item_id IS NOT NULL))::int as pulled,
+              (COUNT(*) FILTER (WHERE s.status = 'done'))::int as done,
+              (COUNT(*) FILTER (WHERE s.status = 'rejected'))::int as rejected
+       FROM suggestions s
+       WHERE s.project_id = $1 AND ${IN_RANGE("s.created_at")}`,
+      params
+    ),
+    // done_at = última passagem para done no histórico (só das que continuam done)
+    pool.query(
+      `WITH t AS (
+         SELECT s.created_at, s.locked_at,
+                CASE WHEN s.status = 'done' THEN
+                  (SELECT MAX(h.created_at) FROM suggestion_status_history h
+                   WHERE h.suggestion_id = s.id AND h.to_status = 'done')
+                END as done_at
+         FROM suggestions s
+         WHERE s.project_id = $1 AND ${IN_RANGE("s.created_at")}
+       )
+       SELECT
+         (EXTRACT(EPOCH FROM percentile_cont(0.5) WITHIN GROUP (ORDER BY locked_at - created_at)
+           FILTER (WHERE locked_at IS NOT NULL)) / 3600)::float8 as created_to_locked,
+         (EXTRACT(EPOCH FROM percentile_cont(0.5) WITHIN GROUP (ORDER BY done_at - locked_at)
+           FILTER (WHERE locked_at IS NOT NULL AND done_at IS NOT NULL)) / 3600)::float8 as locked_to_done,
+         (EXTRACT(EPOCH FROM percentile_cont(0.5) WITHIN GROUP (ORDER BY done_at - created_at)
+           FILTER (WHERE done_at IS NOT NULL)) / 3600)::float8 as created_to_done
+       FROM t`,
+      params
+    ),
+    pool.query(
+      `SELECT ds.code as stack,
+              (COUNT(t.id) FILTER (WHERE t.is_done = false AND t.created_at < $3::date + 1))::int as open,
+              (COUNT(t.id) FILTER (WHERE t.is_done = true AND ${IN_RANGE("t.done_at")}))::int as done
+       FROM developer_stacks ds
+       JOIN backlog_tasks t ON t.stack_id = ds.id AND t.project_id = $1
+       JOIN backlog_items b ON b.id = t.backlog_item_id AND b.is_active = true
+       GROUP BY ds.id, ds.code
+       ORDER BY ds.id`,
+      params
+    ),
+    pool.query(
+      `SELECT b.stage, COUNT(*)::int as count
+       FROM backlog_items b
+       WHERE b.project_id = $1 AND b.is_active = true AND b.created_at < $3::date + 1
+       GROUP BY b.stage`,
+      params
+    ),
+  ]);
+
+  const f = funnel.rows[0];
+  const hours = (v: number | null) => (v === null ? null : Math.round(v * 10) / 10);
+  const lt = leadTimes.rows[0];
+
+  const stageCounts = new Map<string, number>(stages.rows.map((r) => [r.stage, r.count]));
+
+  return {
+    range,
+    suggestion_intake: intake.rows,
+    pull: {
+      suggestions_total: f.total,
+      pulled: f.pulled,
+      done: f.done,
+      rejected: f.rejected,
+      pull_rate: f.total > 0 ? Math.round((f.pulled / f.total) * 1000) / 1000 : null,
+    },
+    median_hours: {
+      created_to_locked: hours(lt.created_to_locked),
+      locked_to_done: hours(lt.locked_to_done),
+      created_to_done: hours(lt.created_to_done),
+    },
+    tasks_by_stack: tasks.rows,
+    backlog_stages: STAGES.map((stage) => ({
+      stage,
+      count: stageCounts.get(stage) ?? 0,
+    })),
+  };
+}
+
+/**
+ * Séries diárias prontas para gráfico: `dates[i]` corresponde a `series[*].values[i]`.
+ * Cada ponto é o estado no fim do dia.
+ */
+export type DailySeries = {
+  range: MetricsRange;
+  dates: string[];
+  series: { key: string; values: number[] }[];
+};
+
+
+/**
+ * Burndown de tasks (projeto inteiro ou um item).
+ * Task marcada como feita sem done_at (dado antigo) conta como feita desde o último update.
+ */
+export async function getBurndown(
+  projectId: string,
+  range: MetricsRange,
+  backlogItemId: string | null
+): Promise<DailySeries> {
+  const { rows } = await pool.query(
+    `SELECT d.day::date::text as day,
+            (COUNT(t.id) FILTER (WHERE t.created_at < d.day + interval '1 day'))::int as total,
+            (COUNT(t.id) FILTER (
+              WHERE t.created_at < d.day + interval '1 day'
+                AND NOT (t.is_done AND COALESCE(t.done_at, t.updated_at) < d.day + interval '1 day')
+            ))::int as remaining
+     FROM generate_series($2::date, $3::date, interval '1 day') AS d(day)
+     LEFT JOIN (
+       backlog_tasks t JOIN backlog_items b ON b.id = t.backlog_item_id AND b.is_active = true
+     ) ON t.project_id = $1 AND ($4::uuid IS NULL OR t.backlog_item_id = $4)
+     GROUP BY d.day
+     ORDER BY d.day`,
+    [projectId, range.from, range.to, backlogItemId]
+  );
+
+  // linha ideal: do restante no primeiro dia até zero no último
+  const start = rows[0]?.remaining ?? 0;
+  const steps = Math.max(rows.length - 1, 1);
+
+  return {
+    range,
+    dates: rows.map((r) => r.day),
+    series: [
+      { key: "remaining", values: rows.map((r) => r.remaining) },
+      { key: "total", values: rows.map((r) => r.total) },
+      { key: "ideal", values: rows.map((_, i) => Math.round((start * (1 - i / steps)) * 10) / 10) },
+    ],
+  };
+}
+
+/**
+ * Cumulative flow: quantos itens estavam em cada estágio no fim de cada dia,
+ * pela última transição do histórico até aquele dia. Item excluído conta até a exclusão.
+ */
+export async function getCumulativeFlow(
+  projectId: string,
+  range: MetricsRange,
+  backlogItemId: string | null
+): Promise<DailySeries> {
+  const { rows } = await pool.query(
+    `SELECT d.day::date::text as day, h.to_stage as stage, COUNT(*)::int as count
+     FROM generate_series($2::date, $3::date, interval '1 day') AS d(day)
+     JOIN LATERAL (
+       SELECT DISTINCT ON (h.backlog_item_id) h.backlog_item_id, h.to_stage
+       FROM backlog_stage_history h
+       WHERE h.project_id = $1
+         AND ($4::uuid IS NULL OR h.backlog_item_id = $4)
+         AND h.created_at < d.day + interval '1 day'
+       ORDER BY h.backlog_item_id, h.created_at DESC, h.id DESC
+     ) h ON true
+     JOIN backlog_items b ON b.id = h.backlog_item_id
+      AND (b.is_active = true OR b.deleted_at >= d.day + interval '1 day')
+     GROUP BY d.day, h.to_stage`,
+    [projectId, range.from, range.to, backlogItemId]
+  );
+
+  const dates: string[] = [];
+  for (let t = Date.parse(range.from); t <= Date.parse(range.to); t += 86400000) {
+    dates.push(new Date(t).toISOString().slice(0, 10));
+  }
+  const byDay = new Map<string, number>(rows.map((r) => [`${r.day}|${r.stage}`, r.count]));
+
+  return {
+    range,
+    dates,
+    series: STAGES.map((stage) => ({
+      key: stage,
+      values: dates.map((day) => byDay.get(`${day}|${stage}`) ?? 0),
+    })),
+  };
+}
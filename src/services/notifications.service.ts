@@ -0,0 +1,45 @@
+import { PoolClient } from "pg";
+
+export const NOTIFICATION_TYPES = [
+  "suggestion.pulled",
+  "suggestion.completed",
+  "suggestion.reopened",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+/**
+ * Avisa o autor da sugestão (dentro da transação do chamador).
+ * Não notifica: o próprio autor da ação, usuário inativo, quem não é mais membro
+ * do projeto, nem quem desligou o tipo nas preferências.
+ */
+export async function notifySuggestionAuthor(
+  client: PoolClient,
+  params: {
+    projectId: string;
+    suggestionId: string;
+    type: NotificationType;
+    actorUserId?: string | null;
+    data?: Record<string, unknown>;
+  }
+) {
+  await client.query(
+    `INSERT INTO notifications (user_id, project_id, type, data)
+     SELECT s.created_by_user_id, s.project_id, $3,
+            jsonb_build_object('suggestion_id', s.id, 'suggestion_title', s.title) || $4::jsonb
+     FROM suggestions s
+     JOIN users u ON u.id = s.created_by_user_id AND u.is_active = true
+     JOIN project_members pm ON pm.project_id = s.project_id AND pm.user_id = s.created_by_user_id
+     LEFT JOIN notification_preferences np ON np.user_id = s.created_by_user_id AND np.type = $3
+     WHERE s.project_id = $1 AND s.id = $2
+       AND ($5::uuid IS NULL OR s.created_by_user_id <> $5)
+       AND COALESCE(np.enabled, true)`,
+    [
+      params.projectId,
+      params.suggestionId,
+      params.type,
+      JSON.stringify(params.data ?? {}),
+      params.actorUserId ?? null,
+    ]
+  );
+}
@@ -0,0 +1,11 @@
+import bcrypt from "bcryptjs";
+
+const BCRYPT_ROUNDS = 10;
+
+export function hashPassword(plain: string) {
+  return bcrypt.hash(plain, BCRYPT_ROUNDS);
+}
+
+export function verifyPassword(plain: string, hash: string) {
+  return bcrypt.compare(plain, hash);
+}
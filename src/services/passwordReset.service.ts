@@ -0,0 +1,49 @@
+import crypto from "crypto";
+import { PoolClient } from "pg";
+import { env } from "../env";
+import { hashToken } from "./session.service";
+
+/**
+ * Cria um token de reset (uso único) e invalida os anteriores ainda não usados.
+ * Retorna o token em claro (vai só no e-mail) e o link pronto.
+ */
+export async function createPasswordResetToken(client: PoolClient, userId: string) {
+  const token = crypto.randomBytes(32).toString("base64url");
+
+  await client.query(
+    `UPDATE password_reset_tokens
+     SET used_at = now()
+     WHERE user_id = $1 AND used_at IS NULL`,
+    [userId]
+  );
+
+  await client.query(
+    `INSERT INTO password_reset_tokens (user_id, token_hash, expires_at)
+     VALUES ($1, $2, now() + make_interval(mins => $3))`,
+    [userId, hashToken(token), env.PASSWORD_RESET_TTL_MINUTES]
+  );
+
+  const url = new URL(env.PASSWORD_RESET_URL);
+  url.searchParams.set("token", token);
+
+  return { token, link: url.toString() };
+}
+
+/**
+ * Consome um token de reset. Retorna o user_id ou null se inválido/expirado/usado.
+ */
+export async function consumePasswordResetToken(client: PoolClient, token: string) {
+  const { rows } = await client.query(
+    `UPDATE password_reset_tokens prt
+     SET used_at = now()
+     FROM users u
+     WHERE u.id = prt.user_id
+       AND prt.token_hash = $1
+       AND prt.used_at IS NULL
+       AND prt.expires_at > now()
+       AND u.is_active = true
+     RETURNING prt.user_id`,
+    [hashToken(token)]
+  );
+  return (rows[0]?.user_id as string | undefined) ?? null;
+}
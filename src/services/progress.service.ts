@@ -1,62 +1,146 @@
+import { PoolClient } from "pg";
 import { pool } from "../db";
+import { ProgressStrategy } from "../types";
+import { enqueueWebhooks } from "./webhooks.service";
+import { notifySuggestionAuthor } from "./notifications.service";
+import { publishEvent } from "./events.service";
 
 /**
  * Recalcula progresso do backlog item e, se houver sugestão vinculada,
  * espelha progresso/status na sugestão.
+ * Se `db` vier, roda dentro da transação do chamador; senão abre a própria.
+ * Mudança de progresso enfileira o webhook backlog.progress_changed na mesma transação;
+ * chegar a 100% avisa o autor da sugestão.
+ * O peso de cada task segue a estratégia do projeto (task_count, effort ou stack_weighted);
+ * se a soma dos pesos der 0, vale a contagem de tasks.
  * Retorna { backlogProgress, suggestionProgress? }.
  */
-export async function recalcProgress(projectId: string, backlogItemId: string) {
+export async function recalcProgress(projectId: string, backlogItemId: string, db?: PoolClient) {
+  if (db) return recalcProgressWith(db, projectId, backlogItemId);
+
   const client = await pool.connect();
   try {
     await client.query("BEGIN");
+    const result = await recalcProgressWith(client, projectId, backlogItemId);
+    await client.query("COMMIT");
+    return result;
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
 
-    const tasksRes = await client.query(
-      `SELECT COUNT(*)::int AS total,
-              SUM(CASE WHEN is_done THEN 1 ELSE 0 END)::int AS done
-       FROM backlog_tasks
-       WHERE project_id = $1 AND backlog_item_id = $2`,
-      [projectId, backlogItemId]
-    );
+// bulk: recálculo por mudança de configuração (sem webhook por item nem aviso ao autor)
+async function recalcProgressWith(client: PoolClient, projectId: string, backlogItemId: string, bulk = false) {
+  const itemRes = await client.query(
+    `SELECT suggestion_id, progress_percent
+     FROM backlog_items
+     WHERE project_id = $1 AND id = $2`,
+    [projectId, backlogItemId]
+  );
+  const previous = itemRes.rows[0]?.progress_percent as number | undefined;
+
+  // peso de cada task conforme a estratégia do projeto (ver projects.progress_strategy)
+  const tasksRes = await client.query(
+    `SELECT p.progress_strategy as strategy,
+            COUNT(t.id)::int AS total,
+            (COUNT(t.id) FILTER (WHERE t.is_done))::int AS done,
+            COALESCE(SUM(w.weight), 0)::float8 AS weight_total,
+            COALESCE(SUM(w.weight) FILTER (WHERE t.is_done), 0)::float8 AS weight_done
+     FROM projects p
+     LEFT JOIN backlog_tasks t ON t.project_id = p.id AND t.backlog_item_id = $2
+     LEFT JOIN developer_stacks ds ON ds.id = t.stack_id
+     LEFT JOIN LATERAL (
+       SELECT CASE p.progress_strategy
+                WHEN 'effort' THEN COALESCE(t.effort_points, 1)::numeric
+                WHEN 'stack_weighted' THEN COALESCE((p.progress_stack_weights ->> ds.code)::numeric, 1)
+                ELSE 1
+              END AS weight
+     ) w ON t.id IS NOT NULL
+     WHERE p.id = $1
+     GROUP BY p.id`,
+    [projectId, backlogItemId]
+  );
+
+  const strategy = (tasksRes.rows[0]?.strategy ?? "task_count") as ProgressStrategy;
+  const total = tasksRes.rows[0]?.total ?? 0;
+  const done = tasksRes.rows[0]?.done ?? 0;
+  const weightTotal = tasksRes.rows[0]?.weight_total ?? 0;
+  const weightDone = tasksRes.rows[0]?.weight_done ?? 0;
+  // todas as tasks com peso 0 (ex.: só stacks zeradas): cai para contagem de tasks
+  const progress =
+    weightTotal > 0 ? Math.round((weightDone / weightTotal) * 100)
+    : total > 0 ? Math.round((done / total) * 100)
+    : 0;
 
-    const total = tasksRes.rows[0]?.total ?? 0;
-    const done = tasksRes.rows[0]?.done ?? 0;
-    const progress = total === 0 ? 0 : Math.round((done / total) * 100);
+  await client.query(
+    `UPDATE backlog_items
+     SET progress_percent = $1, updated_at = now()
+     WHERE project_id = $2 AND id = $3`,
+    [progress, projectId, backlogItemId]
+  );
+
+  // Se backlog tiver suggestion_id, espelhar na suggestions
+  const suggestionId = (itemRes.rows[0]?.suggestion_id ?? null) as string | null;
+
+  let suggestionProgress: number | null = null;
+  if (suggestionId) {
+    suggestionProgress = progress;
 
     await client.query(
-      `UPDATE backlog_items
+      `UPDATE suggestions
        SET progress_percent = $1, updated_at = now()
        WHERE project_id = $2 AND id = $3`,
-      [progress, projectId, backlogItemId]
+      [progress, projectId, suggestionId]
     );
+  }
 
-    // Se backlog tiver suggestion_id, espelhar na suggestions
-    const linkRes = await client.query(
-      `SELECT suggestion_id
-       FROM backlog_items
-       WHERE project_id = $1 AND id = $2`,
-      [projectId, backlogItemId]
-    );
+  if (!bulk && previous !== undefined && previous !== progress) {
+    await enqueueWebhooks(client, projectId, "backlog.progress_changed", {
+      backlog_item_id: backlogItemId,
+      suggestion_id: suggestionId,
+      previous_progress_percent: previous,
+      progress_percent: progress,
+      tasks_total: total,
+      tasks_done: done,
+      strategy,
+    });
+  }
 
-    const suggestionId = linkRes.rows[0]?.suggestion_id as string | null;
+  if (!bulk && suggestionId && progress === 100 && previous !== undefined && previous < 100) {
+    await notifySuggestionAuthor(client, {
+      projectId,
+      suggestionId,
+      type: "suggestion.completed",
+      data: { backlog_item_id: backlogItemId },
+    });
+  }
 
-    let suggestionProgress: number | null = null;
-    if (suggestionId) {
-      suggestionProgress = progress;
+  return { backlogProgress: progress, suggestionProgress };
+}
 
-      await client.query(
-        `UPDATE suggestions
-         SET progress_percent = $1, updated_at = now()
-         WHERE project_id = $2 AND id = $3`,
-        [progress, projectId, suggestionId]
-      );
-    }
+/**
+ * Recalcula todos os itens ativos do projeto (troca de estratégia/pesos),
+ * dentro da transação do chamador. Retorna quantos itens mudaram de progresso.
+ * Não dispara webhook por item nem avisa autores (a mudança é de configuração, não de trabalho);
+ * publica um único project.progress_recalculated para os boards abertos recarregarem.
+ */
+export async function recalcProjectProgress(client: PoolClient, projectId: string) {
+  const { rows } = await client.query(
+    `SELECT id, progress_percent FROM backlog_items WHERE project_id = $1 AND is_active = true`,
+    [projectId]
+  );
 
-    await client.query("COMMIT");
-    return { backlogProgress: progress, suggestionProgress };
-  } catch (e) {
-    await client.query("ROLLBACK");
-    throw e;
-  } finally {
-    client.release();
+  let changed = 0;
+  for (const item of rows) {
+    const { backlogProgress } = await recalcProgressWith(client, projectId, item.id, true);
+    if (backlogProgress !== item.progress_percent) changed++;
+  }
+
+  if (changed > 0) {
+    await publishEvent(client, projectId, "project.progress_recalculated", { items: rows.length, changed });
   }
+  return { items: rows.length, changed };
 }
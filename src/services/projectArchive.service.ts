@@ -0,0 +1,585 @@
+import crypto from "crypto";
+import { PoolClient } from "pg";
+import { z } from "zod";
+import { pool } from "../db";
+import { rankBetween } from "../rank";
+import { DateSchema } from "../schemas";
+
+/**
+ * Arquivo portátil de um projeto (backup / mover entre ambientes).
+ * Usuários vão por e-mail e stacks por código; ids são do ambiente de origem
+ * e só servem para ligar as entidades entre si (são todos trocados no import).
+ */
+export const ARCHIVE_FORMAT = "mural.project";
+export const ARCHIVE_VERSION = 1;
+
+const Uuid = z.string().uuid();
+const Email = z.string().email();
+const Ts = z.coerce.date();
+
+export const ProjectArchiveSchema = z.object({
+  format: z.literal(ARCHIVE_FORMAT),
+  version: z.literal(ARCHIVE_VERSION),
+  exported_at: Ts,
+  project: z.object({
+    id: Uuid,
+    name: z.string().min(1).max(120),
+    description: z.string().nullable(),
+    status: z.enum(["active", "archived"]),
+    progress_strategy: z.enum(["task_count", "effort", "stack_weighted"]).default("task_count"),
+    progress_stack_weights: z.record(z.string(), z.number().min(0).max(100)).default({}),
+  }),
+  members: z.array(z.object({
+    email: Email,
+    role: z.enum(["user", "developer", "manager"]).nullable(),
+  })),
+  milestones: z.array(z.object({
+    id: Uuid,
+    name: z.string().min(1),
+    description: z.string().nullable(),
+    start_date: DateSchema,
+    end_date: DateSchema,
+    status: z.enum(["open", "closed"]),
+    closed_at: Ts.nullable(),
+    created_by_email: Email,
+  })),
+  suggestions: z.array(z.object({
+    id: Uuid,
+    author_email: Email,
+    title: z.string().min(1),
+    description: z.string(),
+    status: z.enum(["open", "in_progress", "done", "rejected"]),
+    progress_percent: z.number().int().min(0).max(100),
+    backlog_item_id: Uuid.nullable(),
+    merged_into_id: Uuid.nullable(),
+    locked_at: Ts.nullable(),
+    created_at: Ts,
+  })),
+  votes: z.array(z.object({
+    suggestion_id: Uuid,
+    user_email: Email,
+    vote: z.union([z.literal(-1), z.literal(0), z.literal(1)]),
+    created_at: Ts,
+  })),
+  backlog_items: z.array(z.object({
+    id: Uuid,
+    origin_type: z.enum(["manual", "suggestion"]),
+    suggestion_id: Uuid.nullable(),
+    milestone_id: Uuid.nullable(),
+    title: z.string().min(1),
+    summary: z.string().nullable(),
+    stage: z.enum(["todo", "doing", "review", "done", "blocked"]),
+    priority: z.enum(["low", "medium", "high", "urgent"]),
+    progress_percent: z.number().int().min(0).max(100),
+    rank: z.string().nullable(),
+    is_active: z.boolean(),
+    created_by_email: Email,
+    created_at: Ts,
+  })),
+  tasks: z.array(z.object({
+    id: Uuid,
+    backlog_item_id: Uuid,
+    stack: z.string(),
+    title: z.string().min(1),
+    description: z.string().nullable(),
+    is_done: z.boolean(),
+    done_at: Ts.nullable(),
+    order_index: z.number().int(),
+    effort_points: z.number().int().min(1).max(100).nullable().default(null),
+    assignee_email: Email.nullable(),
+    created_by_email: Email,
+    created_at: Ts,
+  })),
+  task_dependencies: z.array(z.object({
+    task_id: Uuid,
+    depends_on_task_id: Uuid,
+  })).default([]),
+});
+
+export type ProjectArchive = z.infer<typeof ProjectArchiveSchema>;
+
+export async function exportProject(projectId: string): Promise<ProjectArchive | null> {
+  const client = await pool.connect();
+  try {
+    // todas as leituras no mesmo snapshot: o arquivo não mistura estados de antes e depois de uma escrita
+    await client.query("BEGIN ISOLATION LEVEL REPEATABLE READ READ ONLY");
+    const archive = await readProjectArchive(client, projectId);
+    await client.query("COMMIT");
+    return archive;
+  } catch (e) {
+    await client.query("ROLLBACK");
+    throw e;
+  } finally {
+    client.release();
+  }
+}
+
+async function readProjectArchive(client: PoolClient, projectId: string): Promise<ProjectArchive | null> {
+  const pRes = await client.query(
+    `SELECT id, name, description, status, progress_strategy, progress_stack_weights FROM projects WHERE id = $1`,
+    [projectId]
+  );
+  if (pRes.rows.length === 0) return null;
+
+  const [members, milestones, suggestions, votes, items, tasks, dependencies] = await Promise.all([
+    client.query(
+      `SELECT u.email, pm.role
+       FROM project_members pm JOIN users u ON u.id = pm.user_id
+       WHERE pm.project_id = $1
+       ORDER BY u.email`,
+      [projectId]
+    ),
+    client.query(
+      `SELECT m.id, m.name, m.description, m.start_date::text as start_date, m.end_date::text as end_date,
+              m.status, m.closed_at, u.email as created_by_email
+       FROM milestones m JOIN users u ON u.id = m.created_by_user_id
+       WHERE m.project_id = $1
+       ORDER BY m.start_date`,
+      [projectId]
+    ),
+    client.query(
+      `SELECT s.id, u.email as author_email, s.title, s.description, s.status, s.progress_percent,
+              s.backlog_item_id, s.merged_into_id, s.locked_at, s.created_at
+       FROM suggestions s JOIN users u ON u.id = s.created_by_user_id
+       WHERE s.project_id = $1
+       ORDER BY s.created_at`,
+      [projectId]
+    ),
+    client.query(
+      `SELECT v.suggestion_id, u.email as user_email, v.vote, v.created_at
+       FROM suggestion_votes v JOIN users u ON u.id = v.user_id
+       WHERE v.project_id = $1
+       ORDER BY v.created_at`,
+      [projectId]
+    ),
+    client.query(
+      `SELECT b.id, b.origin_type, b.suggestion_id, b.milestone_id, b.title, b.summary, b.stage,
+              b.priority, b.progress_percent, b.rank, b.is_active, u.email as created_by_email, b.created_at
+       FROM backlog_items b JOIN users u ON u.id = b.created_by_user_id
+       WHERE b.project_id = $1
+       ORDER BY b.created_at`,
+      [projectId]
+    ),
+    client.query(
+      `SELECT t.id, t.backlog_item_id, ds.code as stack, t.title, t.description, t.is_done, t.done_at,
+              t.order_index, t.effort_points, a.email as assignee_email, u.email as created_by_email, t.created_at
+       FROM backlog_tasks t
+       JOIN developer_stacks ds ON ds.id = t.stack_id
+       JOIN users u ON u.id = t.created_by_user_id
+       LEFT JOIN users a ON a.id = t.assignee_user_id
+       WHERE t.project_id = $1
+       ORDER BY t.backlog_item_id, t.order_index`,
+      [projectId]
+    ),
+    client.query(
+      `SELECT task_id, depends_on_task_id
+       FROM backlog_task_dependencies
+       WHERE project_id = $1
+       ORDER BY created_at`,
+      [projectId]
+    ),
+  ]);
+
+  return {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exported_at: new Date(),
+    project: pRes.rows[0],
+    members: members.rows,
+    milestones: milestones.rows,
+    suggestions: suggestions.rows,
+    votes: votes.rows,
+    backlog_items: items.rows,
+    tasks: tasks.rows,
+    task_dependencies: dependencies.rows,
+  };
+}
+
+export type ImportConflict = { entity: string; ref: string; error: string };
+
+export type ImportOptions = {
+  // e-mail sem usuário no destino: "report" bloqueia; "importer" atribui ao admin que importa
+  missingUsers: "report" | "importer";
+  name?: string;
+};
+
+/**
+ * Confere o arquivo contra o banco de destino sem gravar nada.
+ * Retorna os conflitos (bloqueiam o import) e avisos.
+ */
+export async function checkProjectImport(client: PoolClient, a: ProjectArchive, opts: ImportOptions) {
+  const conflicts: ImportConflict[] = [];
+  const warnings: string[] = [];
+
+  const emails = new Set<string>([
+    ...a.members.map((m) => m.email),
+    ...a.milestones.map((m) => m.created_by_email),
+    ...a.suggestions.map((s) => s.author_email),
+    ...a.votes.map((v) => v.user_email),
+    ...a.backlog_items.map((b) => b.created_by_email),
+    ...a.tasks.flatMap((t) => [t.created_by_email, ...(t.assignee_email ? [t.assignee_email] : [])]),
+  ].map((e) => e.toLowerCase()));
+
+  const usersRes = await client.query(
+    `SELECT id, lower(email) as email FROM users WHERE lower(email) = ANY($1::text[]) AND is_active = true`,
+    [[...emails]]
+  );
+  const users = new Map(usersRes.rows.map((u) => [u.email as string, u.id as string]));
+
+  const missing = [...emails].filter((e) => !users.has(e));
+  if (missing.length > 0) {
+    if (opts.missingUsers === "report") {
+      for (const e of missing) conflicts.push({ entity: "user", ref: e, error: "Usuário não existe (ou está inativo) no destino" });
+    } else {
+      warnings.push(`${missing.length} usuário(s) ausente(s): conteúdo atribuído ao importador, votos/atribuições/vínculos descartados`);
+    }
+  }
+
+  const stackCodes = [...new Set(a.tasks.map((t) => t.stack))];
+  const stacksRes = await client.query(
+    `SELECT id, code FROM developer_stacks WHERE code = ANY($1::text[]) AND is_active = true`,
+    [stackCodes]
+  );
+  const stacks = new Map(stacksRes.rows.map((s) => [s.code as string, s.id as number]));
+  for (const code of stackCodes) {
+    if (!stacks.has(code)) conflicts.push({ entity: "stack", ref: code, error: "Stack não existe (ou está inativa) no destino" });
+  }
+
+  // ids repetidos (em qualquer entidade) colidiriam no remapeamento
+  const seenIds = new Set<string>();
+  const entities: [string, { id: string }[]][] = [
+    ["milestone", a.milestones],
+    ["suggestion", a.suggestions],
+    ["backlog_item", a.backlog_items],
+    ["task", a.tasks],
+  ];
+  for (const [entity, list] of entities) {
+    for (const e of list) {
+      if (seenIds.has(e.id)) conflicts.push({ entity, ref: e.id, error: "Id repetido no arquivo" });
+      seenIds.add(e.id);
+    }
+  }
+
+  for (const m of a.milestones) {
+    if (m.end_date < m.start_date) conflicts.push({ entity: "milestone", ref: m.id, error: "end_date anterior a start_date" });
+  }
+
+  // referências internas do arquivo
+  const suggestionIds = new Set(a.suggestions.map((s) => s.id));
+  const itemIds = new Set(a.backlog_items.map((b) => b.id));
+  const milestoneIds = new Set(a.milestones.map((m) => m.id));
+  const suggestionById = new Map(a.suggestions.map((s) => [s.id, s]));
+  const itemById = new Map(a.backlog_items.map((b) => [b.id, b]));
+
+  for (const s of a.suggestions) {
+    if (s.backlog_item_id && !itemIds.has(s.backlog_item_id)) {
+      conflicts.push({ entity: "suggestion", ref: s.id, error: "backlog_item_id aponta para item fora do arquivo" });
+    } else if (s.backlog_item_id && itemById.get(s.backlog_item_id)!.suggestion_id !== s.id) {
+      conflicts.push({ entity: "suggestion", ref: s.id, error: "backlog_item_id aponta para item de outra sugestão" });
+    }
+    if (s.merged_into_id && !suggestionIds.has(s.merged_into_id)) {
+      conflicts.push({ entity: "suggestion", ref: s.id, error: "merged_into_id aponta para sugestão fora do arquivo" });
+    }
+  }
+  // item removido guarda suggestion_id com a sugestão já desvinculada (backlog_item_id null)
+  const itemBySuggestion = new Map<string, string>();
+  for (const b of a.backlog_items) {
+    if (b.suggestion_id && !suggestionIds.has(b.suggestion_id)) {
+      conflicts.push({ entity: "backlog_item", ref: b.id, error: "suggestion_id aponta para sugestão fora do arquivo" });
+    } else if (b.suggestion_id) {
+      const linked = suggestionById.get(b.suggestion_id)!.backlog_item_id;
+      if (linked && linked !== b.id) {
+        conflicts.push({ entity: "backlog_item", ref: b.id, error: "suggestion_id aponta para sugestão vinculada a outro item" });
+      }
+      if (itemBySuggestion.has(b.suggestion_id)) {
+        conflicts.push({ entity: "backlog_item", ref: b.id, error: `Sugestão ${b.suggestion_id} já tem outro item no arquivo` });
+      }
+      itemBySuggestion.set(b.suggestion_id, b.id);
+    }
+    if (b.milestone_id && !milestoneIds.has(b.milestone_id)) {
+      conflicts.push({ entity: "backlog_item", ref: b.id, error: "milestone_id aponta para milestone fora do arquivo" });
+    }
+  }
+  const voteKeys = new Set<string>();
+  for (const v of a.votes) {
+    if (!suggestionIds.has(v.suggestion_id)) conflicts.push({ entity: "vote", ref: v.suggestion_id, error: "Voto em sugestão fora do arquivo" });
+    const key = `${v.suggestion_id}|${v.user_email.toLowerCase()}`;
+    if (voteKeys.has(key)) conflicts.push({ entity: "vote", ref: v.suggestion_id, error: `Voto repetido de ${v.user_email}` });
+    voteKeys.add(key);
+  }
+  for (const t of a.tasks) {
+    if (!itemIds.has(t.backlog_item_id)) conflicts.push({ entity: "task", ref: t.id, error: "Task de item fora do arquivo" });
+  }
+  const taskIds = new Set(a.tasks.map((t) => t.id));
+  const depKeys = new Set<string>();
+  for (const d of a.task_dependencies) {
+    if (!taskIds.has(d.task_id) || !taskIds.has(d.depends_on_task_id) || d.task_id === d.depends_on_task_id) {
+      conflicts.push({ entity: "task_dependency", ref: d.task_id, error: "Dependência aponta para task fora do arquivo" });
+    }
+    const key = `${d.task_id}|${d.depends_on_task_id}`;
+    if (depKeys.has(key)) conflicts.push({ entity: "task_dependency", ref: d.task_id, error: "Dependência repetida" });
+    depKeys.add(key);
+  }
+  const cycle = findArchiveDependencyCycle(a.task_dependencies);
+  if (cycle) {
+    conflicts.push({ entity: "task_dependency", ref: cycle[0], error: `Dependências em ciclo: ${cycle.join(" -> ")}` });
+  }
+
+  const name = opts.name ?? a.project.name;
+  const dupRes = await client.query(
+    `SELECT id FROM projects WHERE lower(name) = lower($1) AND is_active = true LIMIT 1`,
+    [name]
+  );
+  if (dupRes.rows.length > 0) warnings.push(`Já existe um projeto ativo chamado "${name}"`);
+
+  return { conflicts, warnings, users, stacks };
+}
+
+/**
+ * Primeiro ciclo no grafo de dependências do arquivo (task -> pré-requisito), ou null.
+ * Mesma regra de findDependencyCycle, mas sobre o arquivo em memória.
+ */
+function findArchiveDependencyCycle(deps: ProjectArchive["task_dependencies"]) {
+  const edges = new Map<string, string[]>();
+  for (const d of deps) edges.set(d.task_id, [...(edges.get(d.task_id) ?? []), d.depends_on_task_id]);
+
+  // 1 = no caminho atual, 2 = já visitado sem ciclo
+  const state = new Map<string, 1 | 2>();
+  for (const start of edges.keys()) {
+    if (state.has(start)) continue;
+
+    const path: string[] = [start];
+    const stack: { id: string; next: number }[] = [{ id: start, next: 0 }];
+    state.set(start, 1);
+
+    while (stack.length > 0) {
+      const top = stack[stack.length - 1];
+      const targets = edges.get(top.id) ?? [];
+      if (top.next >= targets.length) {
+        state.set(top.id, 2);
+        stack.pop();
+        path.pop();
+        continue;
+      }
+      const to = targets[top.next++];
+      if (state.get(to) === 1) return [...path.slice(path.indexOf(to)), to];
+      if (!state.has(to)) {
+        state.set(to, 1);
+        stack.push({ id: to, next: 0 });
+        path.push(to);
+      }
+    }
+  }
+  return null;
+}
+
+/**
+ * Recria o projeto (ids novos) dentro da transação do chamador.
+ * Pressupõe checkProjectImport sem conflitos.
+ */
+export async function applyProjectImport(
+  client: PoolClient,
+  a: ProjectArchive,
+  opts: ImportOptions,
+  ctx: { users: Map<string, string>; stacks: Map<string, number>; importerId: string }
+) {
+  const newId = new Map<string, string>();
+  const remap = (id: string | null) => (id ? newId.get(id) ?? null : null);
+  for (const e of [...a.milestones, ...a.suggestions, ...a.backlog_items, ...a.tasks]) {
+    newId.set(e.id, crypto.randomUUID());
+  }
+
+  const userOrNull = (email: string | null) => (email ? ctx.users.get(email.toLowerCase()) ?? null : null);
+  const userOrImporter = (email: string) => userOrNull(email) ?? ctx.importerId;
+
+  const pRes = await client.query(
+    `INSERT INTO projects (name, description, status, progress_strategy, progress_stack_weights, created_by_user_id)
+     VALUES ($1, $2, $3, $4, $5::jsonb, $6)
+     RETURNING id, name, description, status, progress_strategy, created_at, is_active`,
+    [
+      opts.name ?? a.project.name,
+      a.project.description,
+      a.project.status,
+      a.project.progress_strategy,
+      JSON.stringify(a.project.progress_stack_weights),
+      ctx.importerId,
+    ]
+  );
+  const project = pRes.rows[0];
+
+  const members = new Map<string, string | null>();
+  for (const m of a.members) {
+    const userId = userOrNull(m.email);
+    if (userId) members.set(userId, m.role);
+  }
+  members.set(ctx.importerId, members.get(ctx.importerId) ?? null);
+
+  await client.query(
+    `INSERT INTO project_members (project_id, user_id, role)
+     SELECT $1, x.user_id, x.role
+     FROM jsonb_to_recordset($2::jsonb) AS x(user_id uuid, role text)`,
+    [project.id, JSON.stringify([...members].map(([user_id, role]) => ({ user_id, role })))]
+  );
+
+  await client.query(
+    `INSERT INTO milestones (id, project_id, name, description, start_date, end_date, status, closed_at, created_by_user_id)
+     SELECT x.id, $1, x.name, x.description, x.start_date, x.end_date, x.status, x.closed_at, x.created_by_user_id
+     FROM jsonb_to_recordset($2::jsonb)
+       AS x(id uuid, name text, description text, start_date date, end_date date,
+            status text, closed_at timestamptz, created_by_user_id uuid)`,
+    [project.id, JSON.stringify(a.milestones.map((m) => ({
+      ...m,
+      id: remap(m.id),
+      created_by_user_id: userOrImporter(m.created_by_email),
+    })))]
+  );
+
+  // sugestões primeiro sem os vínculos (backlog/merge), que entram depois dos itens
+  await client.query(
+    `INSERT INTO suggestions (id, project_id, created_by_user_id, title, description, status,
+                              progress_percent, locked_at, created_at)
+     SELECT x.id, $1, x.created_by_user_id, x.title, x.description, x.status,
+            x.progress_percent, x.locked_at, x.created_at
+     FROM jsonb_to_recordset($2::jsonb)
+       AS x(id uuid, created_by_user_id uuid, title text, description text, status text,
+            progress_percent int, locked_at timestamptz, created_at timestamptz)`,
+    [project.id, JSON.stringify(a.suggestions.map((s) => ({
+      ...s,
+      id: remap(s.id),
+      created_by_user_id: userOrImporter(s.author_email),
+    })))]
+  );
+
+  // rank ausente: vai para o fim, na ordem do arquivo (comparação byte a byte, como o COLLATE "C")
+  let lastRank: string | null = null;
+  const items = [...a.backlog_items]
+    .sort((x, y) => {
+      if (x.rank === y.rank) return 0;
+      if (x.rank === null) return 1;
+      if (y.rank === null) return -1;
+      return x.rank < y.rank ? -1 : 1;
+    })
+    .map((b) => {
+      const rank = b.rank ?? rankBetween(lastRank, null);
+      lastRank = rank;
+      return {
+        ...b,
+        id: remap(b.id),
+        suggestion_id: remap(b.suggestion_id),
+        milestone_id: remap(b.milestone_id),
+        rank,
+        created_by_user_id: userOrImporter(b.created_by_email),
+      };
+    });
+
+  await client.query(
+    `INSERT INTO backlog_items (id, project_id, origin_type, suggestion_id, milestone_id, title, summary,
+                                stage, priority, progress_percent, rank, is_active, deleted_at,
+                                created_by_user_id, created_at)
+     SELECT x.id, $1, x.origin_type, x.suggestion_id, x.milestone_id, x.title, x.summary,
+            x.stage, x.priority, x.progress_percent, x.rank, x.is_active,
+            CASE WHEN x.is_active THEN NULL ELSE now() END,
+            x.created_by_user_id, x.created_at
+     FROM jsonb_to_recordset($2::jsonb)
+       AS x(id uuid, origin_type text, suggestion_id uuid, milestone_id uuid, title text, summary text,
+            stage text, priority text, progress_percent int, rank text, is_active boolean,
+            created_by_user_id uuid, created_at timestamptz)`,
+    [project.id, JSON.stringify(items)]
+  );
+
+  // o arquivo não leva o histórico de estágios: cada item entra no estágio atual na data de criação
+  await client.query(
+    `INSERT INTO backlog_stage_history (project_id, backlog_item_id, from_stage, to_stage, created_at)
+     SELECT project_id, id, NULL, stage, created_at FROM backlog_items WHERE project_id = $1`,
+    [project.id]
+  );
+
+  await client.query(
+    `UPDATE suggestions s
+     SET backlog_item_id = x.backlog_item_id, merged_into_id = x.merged_into_id
+     FROM jsonb_to_recordset($2::jsonb) AS x(id uuid, backlog_item_id uuid, merged_into_id uuid)
+     WHERE s.project_id = $1 AND s.id = x.id`,
+    [project.id, JSON.stringify(a.suggestions
+      .filter((s) => s.backlog_item_id || s.merged_into_id)
+      .map((s) => ({
+        id: remap(s.id),
+        backlog_item_id: remap(s.backlog_item_id),
+        merged_into_id: remap(s.merged_into_id),
+      })))]
+  );
+
+  const votes = a.votes
+    .map((v) => ({ ...v, suggestion_id: remap(v.suggestion_id), user_id: userOrNull(v.user_email) }))
+    .filter((v) => v.user_id);
+
+  await client.query(
+    `INSERT INTO suggestion_votes (project_id, suggestion_id, user_id, vote, created_at)
+     SELECT $1, x.suggestion_id, x.user_id, x.vote, x.created_at
+     FROM jsonb_to_recordset($2::jsonb)
+       AS x(suggestion_id uuid, user_id uuid, vote smallint, created_at timestamptz)
+     ON CONFLICT DO NOTHING`,
+    [project.id, JSON.stringify(votes)]
+  );
+
+  // contadores a partir dos votos que de fato entraram
+  await client.query(
+    `UPDATE suggestions s
+     SET upvotes_count = c.up, downvotes_count = c.down, score = c.up - c.down
+     FROM (
+       SELECT s2.id,
+              COUNT(v.*) FILTER (WHERE v.vote = 1)::int as up,
+              COUNT(v.*) FILTER (WHERE v.vote = -1)::int as down
+       FROM suggestions s2
+       LEFT JOIN suggestion_votes v ON v.suggestion_id = s2.id
+       WHERE s2.project_id = $1
+       GROUP BY s2.id
+     ) c
+     WHERE s.id = c.id`,
+    [project.id]
+  );
+
+  await client.query(
+    `INSERT INTO backlog_tasks (id, project_id, backlog_item_id, stack_id, title, description, is_done, done_at,
+                                order_index, effort_points, assignee_user_id, assigned_at, created_by_user_id, created_at)
+     SELECT x.id, $1, x.backlog_item_id, x.stack_id, x.title, x.description, x.is_done, x.done_at,
+            x.order_index, x.effort_points, x.assignee_user_id,
+            CASE WHEN x.assignee_user_id IS NULL THEN NULL ELSE now() END,
+            x.created_by_user_id, x.created_at
+     FROM jsonb_to_recordset($2::jsonb)
+       AS x(id uuid, backlog_item_id uuid, stack_id smallint, title text, description text, is_done boolean,
+            done_at timestamptz, order_index int, effort_points int, assignee_user_id uuid, created_by_user_id uuid,
+            created_at timestamptz)`,
+    [project.id, JSON.stringify(a.tasks.map((t) => ({
+      ...t,
+      id: remap(t.id),
+      backlog_item_id: remap(t.backlog_item_id),
+      stack_id: ctx.stacks.get(t.stack),
+      assignee_user_id: userOrNull(t.assignee_email),
+      created_by_user_id: userOrImporter(t.created_by_email),
+    })))]
+  );
+
+  await client.query(
+    `INSERT INTO backlog_task_dependencies (project_id, task_id, depends_on_task_id, created_by_user_id)
+     SELECT $1, x.task_id, x.depends_on_task_id, $3
+     FROM jsonb_to_recordset($2::jsonb) AS x(task_id uuid, depends_on_task_id uuid)
+     ON CONFLICT DO NOTHING`,
+    [project.id, JSON.stringify(a.task_dependencies.map((d) => ({
+      task_id: remap(d.task_id),
+      depends_on_task_id: remap(d.depends_on_task_id),
+    }))), ctx.importerId]
+  );
+
+  return {
+    project,
+    counts: {
+      members: members.size,
+      milestones: a.milestones.length,
+      suggestions: a.suggestions.length,
+      votes: votes.length,
+      backlog_items: a.backlog_items.length,
+      tasks: a.tasks.length,
+      task_dependencies: a.task_dependencies.length,
+    },
+  };
+}
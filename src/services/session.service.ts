@@ -0,0 +1,101 @@
+import crypto from "crypto";
+import jwt, { Secret } from "jsonwebtoken";
+import { Pool, PoolClient } from "pg";
+import { env } from "../env";
+import { JwtPayload, Role } from "../types";
+
+type Db = Pool | PoolClient;
+
+export function hashToken(token: string) {
+  return crypto.createHash("sha256").update(token).digest("hex");
+}
+
+function signAccessToken(user: { id: string; role: Role; token_version: number }) {
+  const expiresIn = (env.JWT_EXPIRES_IN || "15m").trim();
+  const payload: JwtPayload = { sub: user.id, role: user.role, ver: user.token_version };
+
+  return jwt.sign(payload, env.JWT_SECRET as Secret, { expiresIn } as jwt.SignOptions);
+}
+
+async function createRefreshToken(db: Db, userId: string) {
+  const token = crypto.randomBytes(48).toString("base64url");
+
+  const { rows } = await db.query(
+    `INSERT INTO refresh_tokens (user_id, token_hash, expires_at)
+     VALUES ($1, $2, now() + make_interval(days => $3))
+     RETURNING id`,
+    [userId, hashToken(token), env.REFRESH_TOKEN_TTL_DAYS]
+  );
+
+  return { id: rows[0].id as string, token };
+}
+
+/**
+ * Emite access token (curto) + refresh token (guardado só como hash).
+ */
+export async function issueSession(db: Db, user: { id: string; role: Role; token_version: number }) {
+  const refresh = await createRefreshToken(db, user.id);
+  return { token: signAccessToken(user), refresh_token: refresh.token, refreshTokenId: refresh.id };
+}
+
+/**
+ * Troca um refresh token válido por uma sessão nova (rotação).
+ * Reuso de um token já revogado derruba todas as sessões do usuário.
+ * Retorna null se o token não serve mais.
+ */
+export async function rotateSession(client: PoolClient, refreshToken: string) {
+  const { rows } = await client.query(
+    `SELECT rt.id, rt.user_id, rt.expires_at, rt.revoked_at,
+            u.role, u.is_active, u.token_version
+     FROM refresh_tokens rt
+     JOIN users u ON u.id = rt.user_id
+     WHERE rt.token_hash = $1
+     FOR UPDATE OF rt`,
+    [hashToken(refreshToken)]
+  );
+  const row = rows[0];
+  if (!row) return null;
+
+  if (row.revoked_at) {
+    await revokeUserSessions(client, row.user_id);
+    return null;
+  }
+  if (new Date(row.expires_at) <= new Date() || !row.is_active) return null;
+
+  const next = await issueSession(client, { id: row.user_id, role: row.role, token_version: row.token_version });
+
+  await client.query(
+    `UPDATE refresh_tokens
+     SET revoked_at = now(), replaced_by_id = $1
+     WHERE id = $2`,
+    [next.refreshTokenId, row.id]
+  );
+
+  return { userId: row.user_id as string, token: next.token, refresh_token: next.refresh_token };
+}
+
+export async function revokeRefreshToken(db: Db, refreshToken: string) {
+  await db.query(
+    `UPDATE refresh_tokens
+     SET revoked_at = now()
+     WHERE token_hash = $1 AND revoked_at IS NULL`,
+    [hashToken(refreshToken)]
+  );
+}
+
+/**
+ * Invalida tudo que o usuário tem em mãos: access tokens (via token_version)
+ * e refresh tokens. Usado em logout geral, desativação, troca de role/senha.
+ */
+export async function revokeUserSessions(db: Db, userId: string) {
+  await db.query(
+    `UPDATE users SET token_version = token_version + 1 WHERE id = $1`,
+    [userId]
+  );
+  await db.query(
+    `UPDATE refresh_tokens
+     SET revoked_at = now()
+     WHERE user_id = $1 AND revoked_at IS NULL`,
+    [userId]
+  );
+}
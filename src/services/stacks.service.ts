@@ -0,0 +1,43 @@
+import { Pool, PoolClient } from "pg";
+import { pool } from "../db";
+
+type Db = Pool | PoolClient;
+
+/**
+ * Stacks do catálogo (developer_stacks) por código.
+ */
+export async function getStackByCode(code: string, db: Db = pool) {
+  const { rows } = await db.query(
+    `SELECT id, code, label, is_active FROM developer_stacks WHERE code = $1`,
+    [code]
+  );
+  return (rows[0] ?? null) as { id: number; code: string; label: string; is_active: boolean } | null;
+}
+
+/**
+ * Códigos que não existem ou estão inativos (para responder 400 antes de gravar).
+ */
+export async function findInvalidStackCodes(codes: string[], db: Db = pool) {
+  if (codes.length === 0) return [];
+
+  const { rows } = await db.query(
+    `SELECT code FROM developer_stacks WHERE code = ANY($1::text[]) AND is_active = true`,
+    [codes]
+  );
+  const valid = new Set(rows.map((r) => r.code as string));
+  return codes.filter((c) => !valid.has(c));
+}
+
+/**
+ * Tasks não concluídas (em itens ativos) que ainda usam a stack.
+ */
+export async function countOpenTasksForStack(stackId: number, db: Db = pool) {
+  const { rows } = await db.query(
+    `SELECT COUNT(*)::int as total
+     FROM backlog_tasks t
+     JOIN backlog_items b ON b.id = t.backlog_item_id
+     WHERE t.stack_id = $1 AND t.is_done = false AND b.is_active = true`,
+    [stackId]
+  );
+  return rows[0].total as number;
+}
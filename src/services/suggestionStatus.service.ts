@@ -0,0 +1,43 @@
+import { PoolClient } from "pg";
+import { SuggestionStatus } from "../types";
+
+/**
+ * Muda o status da sugestão e grava a transição no histórico
+ * (dentro da transação do chamador). Se o status já for o mesmo, não grava nada.
+ * Retorna o status anterior (ou null se a sugestão não existe).
+ */
+export async function changeSuggestionStatus(
+  client: PoolClient,
+  opts: {
+    projectId: string;
+    suggestionId: string;
+    to: SuggestionStatus;
+    userId: string;
+    reason?: string | null;
+  }
+): Promise<SuggestionStatus | null> {
+  const cur = await client.query(
+    `SELECT status FROM suggestions WHERE project_id = $1 AND id = $2 FOR UPDATE`,
+    [opts.projectId, opts.suggestionId]
+  );
+  if (cur.rows.length === 0) return null;
+
+  const from = cur.rows[0].status as SuggestionStatus;
+  if (from === opts.to) return from;
+
+  await client.query(
+    `UPDATE suggestions
+     SET status = $1, updated_at = now()
+     WHERE project_id = $2 AND id = $3`,
+    [opts.to, opts.projectId, opts.suggestionId]
+  );
+
+  await client.query(
+    `INSERT INTO suggestion_status_history
+       (project_id, suggestion_id, from_status, to_status, reason, changed_by_user_id)
+     VALUES ($1, $2, $3, $4, $5, $6)`,
+    [opts.projectId, opts.suggestionId, from, opts.to, opts.reason ?? null, opts.userId]
+  );
+
+  return from;
+}
@@ -0,0 +1,147 @@
+import { PoolClient } from "pg";
+import { BacklogStage } from "../types";
+import { recordAudit } from "./audit.service";
+import { recordStageTransition } from "./backlogWorkflow.service";
+import { publishEvent } from "./events.service";
+
+/**
+ * Caminho de `dependsOnId` até `taskId` seguindo as dependências existentes.
+ * Se existir, adicionar taskId -> dependsOnId fecha um ciclo; retorna o ciclo (ids) ou null.
+ */
+export async function findDependencyCycle(client: PoolClient, taskId: string, dependsOnId: string) {
+  const { rows } = await client.query(
+    `WITH RECURSIVE walk(task_id, path) AS (
+       SELECT $2::uuid, ARRAY[$2::uuid]
+       UNION ALL
+       SELECT d.depends_on_task_id, w.path || d.depends_on_task_id
+       FROM walk w
+       JOIN backlog_task_dependencies d ON d.task_id = w.task_id
+       WHERE NOT d.depends_on_task_id = ANY(w.path)
+     )
+     SELECT path FROM walk WHERE task_id = $1 LIMIT 1`,
+    [taskId, dependsOnId]
+  );
+  if (!rows[0]) return null;
+  return [taskId, ...(rows[0].path as string[])];
+}
+
+/**
+ * Pré-requisitos ainda não concluídos da task. Task de item removido (soft delete) não segura ninguém.
+ */
+export async function getUnfinishedPrerequisites(client: PoolClient, taskId: string) {
+  const { rows } = await client.query(
+    `SELECT t.id, t.backlog_item_id, t.title, ds.code as stack
+     FROM backlog_task_dependencies d
+     JOIN backlog_tasks t ON t.id = d.depends_on_task_id
+     JOIN backlog_items b ON b.id = t.backlog_item_id AND b.is_active = true
+     JOIN developer_stacks ds ON ds.id = t.stack_id
+     WHERE d.task_id = $1 AND t.is_done = false
+     ORDER BY t.created_at`,
+    [taskId]
+  );
+  return rows as { id: string; backlog_item_id: string; title: string; stack: string }[];
+}
+
+/**
+ * Ids dos pré-requisitos da task (concluídos ou não).
+ */
+export async function listDependencyIds(client: PoolClient, taskId: string) {
+  const { rows } = await client.query(
+    `SELECT depends_on_task_id FROM backlog_task_dependencies WHERE task_id = $1 ORDER BY created_at`,
+    [taskId]
+  );
+  return rows.map((r) => r.depends_on_task_id as string);
+}
+
+/**
+ * Itens afetados por mudança nas tasks: os das próprias tasks e os das tasks que dependem delas.
+ */
+export async function getAffectedBacklogItems(client: PoolClient, projectId: string, taskIds: string[]) {
+  if (taskIds.length === 0) return [];
+
+  const { rows } = await client.query(
+    `SELECT DISTINCT t.backlog_item_id
+     FROM backlog_tasks t
+     WHERE t.project_id = $1
+       AND (t.id = ANY($2::uuid[])
+            OR t.id IN (SELECT d.task_id FROM backlog_task_dependencies d WHERE d.depends_on_task_id = ANY($2::uuid[])))`,
+    [projectId, taskIds]
+  );
+  return rows.map((r) => r.backlog_item_id as string);
+}
+
+/**
+ * Bloqueio automático (dentro da transação do chamador):
+ * - item em todo/doing cujas tasks pendentes estão TODAS esperando dependências vai para blocked
+ * - item bloqueado automaticamente volta ao estágio anterior quando alguma task pendente fica livre
+ *   (ou quando não sobra task pendente)
+ * Bloqueio manual (auto_blocked_from_stage NULL) não é desfeito aqui.
+ * Pré-requisito em item removido conta como liberado.
+ */
+export async function syncAutoBlock(client: PoolClient, projectId: string, backlogItemIds: string[], userId: string) {
+  for (const backlogItemId of backlogItemIds) {
+    const itemRes = await client.query(
+      `SELECT stage, auto_blocked_from_stage, rank
+       FROM backlog_items
+       WHERE project_id = $1 AND id = $2 AND is_active = true
+       FOR UPDATE`,
+      [projectId, backlogItemId]
+    );
+    const item = itemRes.rows[0];
+    if (!item) continue;
+
+    const countRes = await client.query(
+      `SELECT (COUNT(*) FILTER (WHERE t.is_done = false))::int as pending,
+              (COUNT(*) FILTER (
+                WHERE t.is_done = false AND EXISTS (
+                  SELECT 1
+                  FROM backlog_task_dependencies d
+                  JOIN backlog_tasks p ON p.id = d.depends_on_task_id
+                  JOIN backlog_items pb ON pb.id = p.backlog_item_id AND pb.is_active = true
+                  WHERE d.task_id = t.id AND p.is_done = false
+                )
+              ))::int as waiting
+       FROM backlog_tasks t
+       WHERE t.project_id = $1 AND t.backlog_item_id = $2`,
+      [projectId, backlogItemId]
+    );
+    const { pending, waiting } = countRes.rows[0];
+
+    const from = item.stage as BacklogStage;
+    const allWaiting = pending > 0 && waiting === pending;
+
+    let to: BacklogStage | null = null;
+    if (allWaiting && (from === "todo" || from === "doing")) to = "blocked";
+    else if (!allWaiting && from === "blocked" && item.auto_blocked_from_stage) to = item.auto_blocked_from_stage;
+    if (!to) continue;
+
+    await client.query(
+      `UPDATE backlog_items
+       SET stage = $1,
+           auto_blocked_from_stage = $2,
+           updated_at = now()
+       WHERE project_id = $3 AND id = $4`,
+      [to, to === "blocked" ? from : null, projectId, backlogItemId]
+    );
+
+    await recordStageTransition(client, { projectId, backlogItemId, from, to, userId });
+
+    await publishEvent(client, projectId, "backlog_item.stage_changed", {
+      backlog_item_id: backlogItemId,
+      from,
+      to,
+      rank: item.rank,
+      automatic: true,
+    });
+
+    await recordAudit(client, {
+      projectId,
+      actorUserId: userId,
+      action: to === "blocked" ? "backlog_item.auto_block" : "backlog_item.auto_unblock",
+      entityType: "backlog_item",
+      entityId: backlogItemId,
+      before: { stage: from },
+      after: { stage: to, pending_tasks: pending, waiting_tasks: waiting },
+    });
+  }
+}
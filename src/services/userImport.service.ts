@@ -0,0 +1,248 @@
+import crypto from "crypto";
+import { PoolClient } from "pg";
+import { z } from "zod";
+import { parseCsv } from "../csv";
+import { EmailSchema, NameSchema, RoleSchema, StackCodeSchema } from "../schemas";
+import { ProjectRole, Role } from "../types";
+import { recordAudit } from "./audit.service";
+import { hashPassword } from "./password.service";
+import { createPasswordResetToken } from "./passwordReset.service";
+import { revokeUserSessions } from "./session.service";
+
+/**
+ * Importação de usuários via CSV.
+ * Colunas: name, email, role, stacks, projects
+ * - stacks: códigos separados por "|" (ou ";"/","), ex.: frontend|backend
+ *   (sem a coluna, usuários existentes mantêm as stacks atuais)
+ * - projects: id ou nome do projeto, com role opcional no projeto, ex.: Portal:manager|App
+ */
+const REQUIRED_COLUMNS = ["name", "email", "role"] as const;
+const LIST_SEPARATOR = /[|;,]/;
+
+const ProjectRoleSchema = z.enum(["user", "developer", "manager"]);
+
+export type ImportOptions = {
+  updateExisting: boolean;
+  credentials: "password" | "reset_link";
+};
+
+type PlannedRow = {
+  row: number;
+  email: string;
+  action: "create" | "update" | "error";
+  errors: string[];
+  warnings: string[];
+  data?: {
+    name: string;
+    role: Role;
+    stacks: string[] | null;
+    projects: { id: string; name: string; role: ProjectRole | null }[];
+    existingUserId: string | null;
+    existingRole: Role | null;
+  };
+};
+
+function splitList(value: string | undefined) {
+  return (value ?? "").split(LIST_SEPARATOR).map((v) => v.trim()).filter(Boolean);
+}
+
+function firstIssue(e: z.ZodError) {
+  return e.issues[0]?.message ?? "inválido";
+}
+
+/**
+ * Valida o CSV contra o banco sem gravar nada (usado no dry-run e antes do commit).
+ */
+export async function planUserImport(client: PoolClient, csv: string, opts: ImportOptions) {
+  const table = parseCsv(csv);
+  if (table.length === 0) return { headerErrors: ["CSV vazio"], rows: [] as PlannedRow[] };
+
+  const header = table[0].map((h) => h.trim().toLowerCase());
+  const missing = REQUIRED_COLUMNS.filter((c) => !header.includes(c));
+  if (missing.length > 0) {
+    return { headerErrors: [`Colunas obrigatórias ausentes: ${missing.join(", ")}`], rows: [] as PlannedRow[] };
+  }
+  const col = (cells: string[], name: string) => {
+    const idx = header.indexOf(name);
+    return idx >= 0 ? cells[idx]?.trim() : undefined;
+  };
+
+  const [stacksRes, projectsRes] = await Promise.all([
+    client.query(`SELECT code FROM developer_stacks WHERE is_active = true`),
+    client.query(`SELECT id, name FROM projects WHERE is_active = true`),
+  ]);
+  const activeStacks = new Set(stacksRes.rows.map((r) => r.code as string));
+  const projectsById = new Map(projectsRes.rows.map((p) => [p.id as string, p]));
+  const projectsByName = new Map(projectsRes.rows.map((p) => [(p.name as string).toLowerCase(), p]));
+
+  const emails = table.slice(1).map((cells) => (col(cells, "email") ?? "").toLowerCase());
+  const existingRes = await client.query(
+    `SELECT id, lower(email) as email, role, is_active FROM users WHERE lower(email) = ANY($1::text[])`,
+    [emails]
+  );
+  const existing = new Map(existingRes.rows.map((u) => [u.email as string, u]));
+
+  const seen = new Map<string, number>();
+  const rows: PlannedRow[] = [];
+
+  table.slice(1).forEach((cells, i) => {
+    const rowNumber = i + 2; // linha 1 = cabeçalho
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    const name = NameSchema.safeParse(col(cells, "name") ?? "");
+    if (!name.success) errors.push(`name: ${firstIssue(name.error)}`);
+
+    const email = EmailSchema.safeParse((col(cells, "email") ?? "").toLowerCase());
+    if (!email.success) errors.push(`email: ${firstIssue(email.error)}`);
+    const emailValue = email.success ? email.data : (col(cells, "email") ?? "");
+
+    const role = RoleSchema.safeParse((col(cells, "role") ?? "").toLowerCase());
+    if (!role.success) errors.push(`role: ${firstIssue(role.error)}`);
+
+    if (email.success) {
+      const dupOf = seen.get(email.data);
+      if (dupOf) errors.push(`email duplicado no arquivo (linha ${dupOf})`);
+      else seen.set(email.data, rowNumber);
+    }
+
+    const current = email.success ? existing.get(email.data) : undefined;
+    if (current && !opts.updateExisting) errors.push("E-mail já cadastrado");
+    if (current && !current.is_active) errors.push("Usuário desativado; reative antes de importar");
+
+    let stacks: string[] = [];
+    for (const raw of splitList(col(cells, "stacks"))) {
+      const code = StackCodeSchema.safeParse(raw);
+      if (!code.success || !activeStacks.has(code.data)) errors.push(`Stack inválida: ${raw}`);
+      else stacks.push(code.data);
+    }
+    // mesma regra do admin de usuários: stacks só para developer/admin
+    const canHaveStacks = role.success && (role.data === "developer" || role.data === "admin");
+    if (role.success && !canHaveStacks && stacks.length > 0) {
+      warnings.push(`stacks ignoradas para role ${role.data}`);
+      stacks = [];
+    }
+
+    const projects: { id: string; name: string; role: ProjectRole | null }[] = [];
+    for (const raw of splitList(col(cells, "projects"))) {
+      const [ref, projectRoleRaw] = raw.split(":").map((v) => v.trim());
+      const project = projectsById.get(ref) ?? projectsByName.get(ref.toLowerCase());
+      if (!project) {
+        errors.push(`Projeto não encontrado: ${ref}`);
+        continue;
+      }
+      let projectRole: ProjectRole | null = null;
+      if (projectRoleRaw) {
+        const parsed = ProjectRoleSchema.safeParse(projectRoleRaw.toLowerCase());
+        if (!parsed.success) errors.push(`Role inválida no projeto ${ref}: ${projectRoleRaw}`);
+        else projectRole = parsed.data;
+      }
+      projects.push({ id: project.id, name: project.name, role: projectRole });
+    }
+
+    if (errors.length > 0) {
+      rows.push({ row: rowNumber, email: emailValue, action: "error", errors, warnings });
+      return;
+    }
+
+    rows.push({
+      row: rowNumber,
+      email: emailValue,
+      action: current ? "update" : "create",
+      errors,
+      warnings,
+      data: {
+        name: name.data!,
+        role: role.data!,
+        stacks: header.includes("stacks") || !current || !canHaveStacks ? stacks : null,
+        projects,
+        existingUserId: current?.id ?? null,
+        existingRole: current?.role ?? null,
+      },
+    });
+  });
+
+  return { headerErrors: [] as string[], rows };
+}
+
+function temporaryPassword() {
+  return crypto.randomBytes(9).toString("base64url");
+}
+
+/**
+ * Aplica um plano sem erros dentro da transação do chamador.
+ * Retorna credenciais só dos usuários criados (senha temporária ou link de reset).
+ */
+export async function applyUserImport(
+  client: PoolClient,
+  rows: PlannedRow[],
+  opts: ImportOptions,
+  actorUserId: string
+) {
+  const credentials: { email: string; temporary_password?: string; reset_link?: string }[] = [];
+
+  for (const r of rows) {
+    const d = r.data!;
+    let userId: string;
+
+    if (d.existingUserId) {
+      userId = d.existingUserId;
+      await client.query(
+        `UPDATE users SET name = $1, role = $2, updated_at = now() WHERE id = $3`,
+        [d.name, d.role, userId]
+      );
+      if (d.existingRole !== d.role) await revokeUserSessions(client, userId);
+    } else {
+      const password = temporaryPassword();
+      const ins = await client.query(
+        `INSERT INTO users (name, email, role, password_hash)
+         VALUES ($1, $2, $3, $4)
+         RETURNING id`,
+        [d.name, r.email, d.role, await hashPassword(password)]
+      );
+      userId = ins.rows[0].id;
+
+      if (opts.credentials === "password") {
+        credentials.push({ email: r.email, temporary_password: password });
+      } else {
+        const { link } = await createPasswordResetToken(client, userId);
+        credentials.push({ email: r.email, reset_link: link });
+      }
+    }
+
+    if (d.stacks !== null) {
+      await client.query(`DELETE FROM user_developer_stacks WHERE user_id = $1`, [userId]);
+      await client.query(
+        `INSERT INTO user_developer_stacks (user_id, stack_id)
+         SELECT $1, id FROM developer_stacks WHERE code = ANY($2::text[])`,
+        [userId, d.stacks]
+      );
+    }
+
+    for (const p of d.projects) {
+      await client.query(
+        `INSERT INTO project_members (project_id, user_id, role)
+         VALUES ($1, $2, $3)
+         ON CONFLICT (project_id, user_id) DO UPDATE SET role = COALESCE(EXCLUDED.role, project_members.role)`,
+        [p.id, userId, p.role]
+      );
+    }
+
+    await recordAudit(client, {
+      actorUserId,
+      action: d.existingUserId ? "user.update" : "user.create",
+      entityType: "user",
+      entityId: userId,
+      after: {
+        name: d.name,
+        email: r.email,
+        role: d.role,
+        stacks: d.stacks,
+        projects: d.projects.map((p) => ({ project_id: p.id, role: p.role })),
+        imported: true,
+      },
+    });
+  }
+
+  return credentials;
+}
@@ -0,0 +1,56 @@
+import { PoolClient } from "pg";
+
+/**
+ * Recalcula upvotes/downvotes/score a partir de suggestion_votes
+ * (dentro da transação do chamador).
+ */
+export async function recalcVoteCounters(client: PoolClient, projectId: string, suggestionId: string) {
+  const aggRes = await client.query(
+    `SELECT
+        SUM(CASE WHEN vote = 1 THEN 1 ELSE 0 END)::int AS up,
+        SUM(CASE WHEN vote = -1 THEN 1 ELSE 0 END)::int AS down
+     FROM suggestion_votes
+     WHERE project_id = $1 AND suggestion_id = $2`,
+    [projectId, suggestionId]
+  );
+
+  const up = aggRes.rows[0]?.up ?? 0;
+  const down = aggRes.rows[0]?.down ?? 0;
+  const score = up - down;
+
+  await client.query(
+    `UPDATE suggestions
+     SET upvotes_count = $1,
+         downvotes_count = $2,
+         score = $3,
+         updated_at = now()
+     WHERE project_id = $4 AND id = $5`,
+    [up, down, score, projectId, suggestionId]
+  );
+
+  return { up, down, score };
+}
+
+/**
+ * Move os votos de `fromId` para `toId` sem contar o mesmo usuário duas vezes:
+ * quem já votou no destino mantém o voto do destino (a não ser que fosse 0).
+ */
+export async function moveVotes(client: PoolClient, projectId: string, fromId: string, toId: string) {
+  const moved = await client.query(
+    `INSERT INTO suggestion_votes (project_id, suggestion_id, user_id, vote)
+     SELECT project_id, $3, user_id, vote
+     FROM suggestion_votes
+     WHERE project_id = $1 AND suggestion_id = $2 AND vote <> 0
+     ON CONFLICT (project_id, suggestion_id, user_id)
+     DO UPDATE SET vote = EXCLUDED.vote, updated_at = now()
+     WHERE suggestion_votes.vote = 0`,
+    [projectId, fromId, toId]
+  );
+
+  await client.query(
+    `DELETE FROM suggestion_votes WHERE project_id = $1 AND suggestion_id = $2`,
+    [projectId, fromId]
+  );
+
+  return moved.rowCount ?? 0;
+}
@@ -0,0 +1,193 @@
+import crypto from "crypto";
+import { Pool, PoolClient } from "pg";
+import { pool } from "../db";
+import { env } from "../env";
+
+type Db = Pool | PoolClient;
+
+export const WEBHOOK_EVENT_TYPES = [
+  "suggestion.created",
+  "suggestion.pulled",
+  "backlog.progress_changed",
+  "task.done",
+] as const;
+
+export type WebhookEventType = (typeof WEBHOOK_EVENT_TYPES)[number];
+
+export function generateWebhookSecret() {
+  return `whsec_${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Assinatura enviada em X-Webhook-Signature: HMAC-SHA256 de `${timestamp}.${body}`.
+ * O receptor recalcula com o secret e compara (e rejeita timestamps muito antigos).
+ */
+export function signPayload(secret: string, timestamp: number, body: string) {
+  return crypto.createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex");
+}
+
+/**
+ * Enfileira uma entrega por webhook ativo inscrito no evento.
+ * Chamar dentro da transação da mudança: se ela der ROLLBACK, nada é entregue.
+ */
+export async function enqueueWebhooks(
+  db: Db,
+  projectId: string,
+  eventType: WebhookEventType,
+  data: Record<string, unknown>
+) {
+  await db.query(
+    `INSERT INTO webhook_deliveries (webhook_id, project_id, event_type, payload)
+     SELECT id, project_id, $2, $3
+     FROM webhooks
+     WHERE project_id = $1 AND is_active = true AND $2 = ANY(event_types)`,
+    [projectId, eventType, JSON.stringify(data)]
+  );
+}
+
+/**
+ * Espera até a próxima tentativa: 30s, 1min, 2min, 4min... (teto de 6h).
+ */
+function backoffSeconds(attempts: number) {
+  return Math.min(30 * 2 ** (attempts - 1), 6 * 60 * 60);
+}
+
+// tempo que uma entrega fica "reservada" por uma instância enquanto é enviada
+const LEASE_SECONDS = 120;
+const BATCH_SIZE = 10;
+
+type DueDelivery = {
+  id: string;
+  project_id: string;
+  event_type: string;
+  payload: unknown;
+  attempts: number;
+  replay_of_id: string | null;
+  created_at: Date;
+  url: string;
+  secret: string;
+};
+
+/**
+ * Webhook desativado: entregas pendentes viram failed (dentro da transação do chamador).
+ */
+export async function failPendingDeliveries(client: PoolClient, webhookId: string, reason: string) {
+  const { rowCount } = await client.query(
+    `UPDATE webhook_deliveries
+     SET status = 'failed',
+         last_error = $2
+     WHERE webhook_id = $1 AND status = 'pending'`,
+    [webhookId, reason]
+  );
+  return rowCount ?? 0;
+}
+
+/**
+ * Reserva entregas vencidas de webhooks ativos (SKIP LOCKED: várias instâncias podem rodar o worker).
+ */
+async function claimDueDeliveries(): Promise<DueDelivery[]> {
+  const { rows } = await pool.query(
+    `UPDATE webhook_deliveries d
+     SET next_attempt_at = now() + make_interval(secs => $1)
+     FROM webhooks w
+     WHERE w.id = d.webhook_id
+       AND w.is_active = true
+       AND d.id IN (
+         SELECT pd.id
+         FROM webhook_deliveries pd
+         JOIN webhooks pw ON pw.id = pd.webhook_id AND pw.is_active = true
+         WHERE pd.status = 'pending' AND pd.next_attempt_at <= now()
+         ORDER BY pd.next_attempt_at ASC
+         LIMIT $2
+         FOR UPDATE OF pd SKIP LOCKED
+       )
+     RETURNING d.id, d.project_id, d.event_type, d.payload, d.attempts, d.replay_of_id,
+               d.created_at, w.url, w.secret`,
+    [LEASE_SECONDS, BATCH_SIZE]
+  );
+  return rows;
+}
+
+async function deliver(d: DueDelivery) {
+  const body = JSON.stringify({
+    id: d.id,
+    event: d.event_type,
+    project_id: d.project_id,
+    created_at: d.created_at,
+    replay_of: d.replay_of_id ?? undefined,
+    data: d.payload,
+  });
+  const timestamp = Math.floor(Date.now() / 1000);
+
+  let statusCode: number | null = null;
+  let error: string | null = null;
+  let responseBody: string | null = null;
+
+  try {
+    const resp = await fetch(d.url, {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/json",
+        "User-Agent": "mural-webhooks/1",
+        "X-Webhook-Id": d.id,
+        "X-Webhook-Event": d.event_type,
+        "X-Webhook-Timestamp": String(timestamp),
+        "X-Webhook-Signature": `sha256=${signPayload(d.secret, timestamp, body)}`,
+      },
+      body,
+      signal: AbortSignal.timeout(env.WEBHOOK_TIMEOUT_MS),
+    });
+    statusCode = resp.status;
+    responseBody = (await resp.text()).slice(0, 2_000);
+    if (!resp.ok) error = `HTTP ${resp.status}`;
+  } catch (e: any) {
+    error = String(e?.message ?? e).slice(0, 500);
+  }
+
+  const attempts = d.attempts + 1;
+  const status = !error ? "success" : attempts >= env.WEBHOOK_MAX_ATTEMPTS ? "failed" : "pending";
+
+  await pool.query(
+    `UPDATE webhook_deliveries
+     SET status = $1,
+         attempts = $2,
+         last_attempt_at = now(),
+         last_status_code = $3,
+         last_error = $4,
+         last_response_body = $5,
+         delivered_at = CASE WHEN $1 = 'success' THEN now() ELSE NULL END,
+         next_attempt_at = now() + make_interval(secs => $6)
+     WHERE id = $7`,
+    [status, attempts, statusCode, error, responseBody, backoffSeconds(attempts), d.id]
+  );
+}
+
+export async function processDueDeliveries() {
+  const due = await claimDueDeliveries();
+  for (const d of due) await deliver(d);
+  return due.length;
+}
+
+/**
+ * Loop do worker (chamado no boot do servidor). Uma rodada por vez, nunca sobrepostas.
+ */
+export function startWebhookWorker() {
+  let running = false;
+
+  const timer = setInterval(async () => {
+    if (running) return;
+    running = true;
+    try {
+      while ((await processDueDeliveries()) === BATCH_SIZE) {
+        // lote cheio: provavelmente há mais vencidas
+      }
+    } catch (e) {
+      console.error("[webhooks] worker", e);
+    } finally {
+      running = false;
+    }
+  }, env.WEBHOOK_WORKER_INTERVAL_MS);
+
+  timer.unref();
+  return () => clearInterval(timer);
+}
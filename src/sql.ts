@@ -1,9 +1,9 @@
 import { pool } from "./db";
-import { StackCode } from "./types";
+import { ProjectRole, Role, StackCode } from "./types";
 
 export async function getUserByEmail(email: string) {
   const { rows } = await pool.query(
-    `SELECT id, name, email, password_hash, role, is_active, deleted_at
+    `SELECT id, name, email, password_hash, role, is_active, deleted_at, token_version
      FROM users
      WHERE email = $1`,
     [email]
@@ -14,7 +14,18 @@ export async function getUserByEmail(email: string) {
 
 export async function getUserById(userId: string) {
   const { rows } = await pool.query(
-    `SELECT id, name, email, role, is_active, deleted_at
+    `SELECT id, name, email, role, is_active, deleted_at, language, default_project_id
+     FROM users
+     WHERE id = $1`,
+    [userId]
+  );
+  return rows[0] ?? null;
+}
+
+
+export async function getUserAuthState(userId: string) {
+  const { rows } = await pool.query(
+    `SELECT role, is_active, token_version
      FROM users
      WHERE id = $1`,
     [userId]
@@ -45,9 +56,35 @@ export async function requireMembership(userId: string, projectId: string): Prom
   return rows.length > 0;
 }
 
+/**
+ * Vínculo do usuário com o projeto (null se não é membro). `role` null = herda o global.
+ */
+export async function getProjectMembership(
+  userId: string,
+  projectId: string
+): Promise<{ role: ProjectRole | null } | null> {
+  const { rows } = await pool.query(
+    `SELECT role
+     FROM project_members
+     WHERE project_id = $1 AND user_id = $2`,
+    [projectId, userId]
+  );
+  return rows[0] ?? null;
+}
+
+/**
+ * Role efetiva no projeto: admin global continua admin; senão vale a role do vínculo,
+ * e sem ela, a global.
+ */
+export function effectiveRole(globalRole: Role, projectRole: ProjectRole | null | undefined): Role {
+  if (globalRole === "admin") return "admin";
+  return projectRole ?? globalRole;
+}
+
 export async function getProjectById(projectId: string) {
   const { rows } = await pool.query(
-    `SELECT id, name, description, status, created_at, is_active, deleted_at
+    `SELECT id, name, description, status, created_at, is_active, deleted_at,
+            progress_strategy, progress_stack_weights
      FROM projects
      WHERE id = $1`,
     [projectId]
@@ -58,9 +95,11 @@ export async function getProjectById(projectId: string) {
 
 export async function getProjectsForUser(userId: string) {
   const { rows } = await pool.query(
-    `SELECT p.id, p.name, p.description, p.status, p.created_at, p.is_active, p.deleted_at
+    `SELECT p.id, p.name, p.description, p.status, p.created_at, p.is_active, p.deleted_at,
+            COALESCE(pm.role, u.role) as my_role
      FROM projects p
      JOIN project_members pm ON pm.project_id = p.id
+     JOIN users u ON u.id = pm.user_id
      WHERE pm.user_id = $1
        AND p.is_active = true
      ORDER BY p.created_at DESC`,
@@ -1,7 +1,14 @@
 export type Role = "user" | "manager" | "developer" | "admin";
-export type StackCode = "frontend" | "backend" | "infra";
+export type ProjectRole = Exclude<Role, "admin">;
+// código do catálogo developer_stacks (gerenciado pelo admin)
+export type StackCode = string;
+export type BacklogStage = "todo" | "doing" | "review" | "done" | "blocked";
+export type SuggestionStatus = "open" | "in_progress" | "done" | "rejected";
+export type Priority = "low" | "medium" | "high" | "urgent";
+export type ProgressStrategy = "task_count" | "effort" | "stack_weighted";
 
 export type JwtPayload = {
   sub: string; // user id
   role: Role;
+  ver: number; // users.token_version no momento da emissão
 };